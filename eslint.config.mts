@@ -22,6 +22,19 @@ export default tseslint.config(
 		},
 	},
 	...obsidianmd.configs.recommended,
+	{
+		files: ["**/*.ts"],
+		plugins: {obsidianmd},
+		rules: {
+			// Product names that keep their own casing; the rule's acronym list would write WebDAV as WEBDAV.
+			// Placeholders such as folder paths and bucket names are examples of values, not UI text.
+			"obsidianmd/ui/sentence-case": ["error", {
+				enforceCamelCaseLower: true,
+				ignoreWords: ["R2", "WebP", "Cloudflare"],
+				ignoreRegex: ["WebDAV", "^[a-z0-9]+(?:[-/][a-z0-9]+)+$", "^x+$"],
+			}],
+		},
+	},
 	globalIgnores([
 		"node_modules",
 		"dist",
@@ -0,0 +1,86 @@
+import {App, Modal, Setting, TFile} from 'obsidian';
+import type ImagesR2Plugin from './main';
+import {LocalEmbed, findLocalEmbeds} from './embeds';
+import {findEditorForFile} from './rewrite';
+
+export interface EmbeddingNote {
+	note: TFile;
+	embeds: LocalEmbed[];   // distinct embeds in the note that resolve to the image
+}
+
+// Other notes embedding the file, found through the metadata cache's resolved links
+export async function findEmbeddingNotes(plugin: ImagesR2Plugin, file: TFile, exclude: TFile): Promise<EmbeddingNote[]> {
+	const {app} = plugin;
+	const found: EmbeddingNote[] = [];
+	for (const [source, links] of Object.entries(app.metadataCache.resolvedLinks)) {
+		if (!links[file.path] || source === exclude.path) continue;
+		const note = app.vault.getAbstractFileByPath(source);
+		if (!(note instanceof TFile) || note.extension !== 'md') continue;
+
+		// resolvedLinks also counts plain links, so keep only notes that embed the image
+		const content = findEditorForFile(app, note)?.editor.getValue() ?? await app.vault.cachedRead(note);
+		const seen = new Set<string>();
+		const embeds = findLocalEmbeds(content).filter(e => {
+			if (seen.has(e.fullMatch) || plugin.resolveImageFile(e.imagePath, note) !== file) return false;
+			seen.add(e.fullMatch);
+			return true;
+		});
+		if (embeds.length) found.push({note, embeds});
+	}
+	return found;
+}
+
+// Lists the other notes an upload will touch; resolves true to rewrite them too, false for
+// the current note only, null when cancelled
+export class AffectedNotesModal extends Modal {
+	private notes: TFile[];
+	private images: number;
+	private resolve: (value: boolean | null) => void = () => {};
+	private chosen: boolean | null = null;
+
+	constructor(app: App, notes: TFile[], images: number) {
+		super(app);
+		this.notes = notes;
+		this.images = images;
+	}
+
+	choose(): Promise<boolean | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		const count = this.notes.length;
+		const what = this.images === 1 ? 'this image' : 'these images';
+		this.setTitle(this.images === 1 ? 'Image used in other notes' : 'Images used in other notes');
+		contentEl.createEl('p', {text: `${count === 1 ? 'One other note embeds' : `${count} other notes embed`} ${what}. Rewrite them to point at the uploaded copy as well?`});
+		const list = contentEl.createEl('ul');
+		for (const note of this.notes) list.createEl('li', {text: note.path});
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(btn => btn
+				.setButtonText('This note only')
+				.onClick(() => {
+					this.chosen = false;
+					this.close();
+				}))
+			.addButton(btn => btn
+				.setButtonText('Rewrite all')
+				.setCta()
+				.onClick(() => {
+					this.chosen = true;
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.chosen);
+	}
+}
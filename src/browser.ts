@@ -0,0 +1,217 @@
+import {ItemView, MarkdownView, Notice, WorkspaceLeaf, moment, setIcon, setTooltip} from 'obsidian';
+import type ImagesR2Plugin from './main';
+import type {ListedObject} from './storage';
+import type {UploadRecord} from './records';
+import {encodeKey} from './keys';
+import {IMAGE_EXTENSIONS, LocalEmbed} from './embeds';
+import {formatSize} from './files';
+
+export const VIEW_TYPE_R2_BROWSER = 'r2-browser';
+
+export class R2BrowserView extends ItemView {
+	plugin: ImagesR2Plugin;
+	private prefix = '';
+	private search = '';
+	private baseUrl: string | null = null;
+	private objects: ListedObject[] = [];
+	private prefixes: string[] = [];
+	private cursor: string | null = null;
+	private loading = false;
+	private renderToken = 0;
+	private error: string | null = null;
+	private listEl: HTMLElement | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: ImagesR2Plugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() { return VIEW_TYPE_R2_BROWSER; }
+	getDisplayText() { return 'Bucket browser'; }
+	getIcon() { return 'folder-search'; }
+
+	async onOpen() {
+		this.register(this.plugin.records.onChange(() => { void this.renderList(); }));
+		this.renderShell();
+		await this.open('');
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	// Navigate to a prefix and load its first page
+	private async open(prefix: string) {
+		this.prefix = prefix;
+		this.objects = [];
+		this.prefixes = [];
+		this.cursor = null;
+		this.error = null;
+		if (!await this.plugin.ensureUnlocked()) {
+			this.error = 'Unlock the encrypted secrets to browse the bucket.';
+			this.renderShell();
+			await this.renderList();
+			return;
+		}
+		this.baseUrl = await this.plugin.storage().resolveBaseUrl();
+		this.renderShell();
+		await this.loadPage();
+	}
+
+	private async loadPage() {
+		const storage = this.plugin.storage();
+		if (!storage.list) {
+			this.error = 'This upload backend cannot list its objects.';
+			await this.renderList();
+			return;
+		}
+		this.loading = true;
+		await this.renderList();
+		const result = await storage.list(this.prefix, this.cursor);
+		this.loading = false;
+		if (result.success) {
+			this.objects.push(...result.page.objects);
+			for (const p of result.page.prefixes) if (!this.prefixes.includes(p)) this.prefixes.push(p);
+			this.cursor = result.page.cursor;
+		} else {
+			this.error = result.error;
+		}
+		await this.renderList();
+	}
+
+	private urlFor(key: string): string | null {
+		return this.baseUrl ? `${this.baseUrl}/${encodeKey(key)}` : null;
+	}
+
+	private renderShell() {
+		const el = this.contentEl;
+		el.empty();
+
+		const navHeader = el.createDiv('nav-header');
+		const navButtons = navHeader.createDiv('nav-buttons-container');
+
+		const upBtn = navButtons.createDiv({cls: 'clickable-icon nav-action-button' + (this.prefix ? '' : ' is-disabled')});
+		setIcon(upBtn, 'arrow-up');
+		setTooltip(upBtn, 'Parent folder');
+		if (this.prefix) {
+			// 'a/b/' → 'a/'
+			const parent = this.prefix.slice(0, this.prefix.slice(0, -1).lastIndexOf('/') + 1);
+			upBtn.addEventListener('click', () => { void this.open(parent); });
+		}
+
+		const refreshBtn = navButtons.createDiv({cls: 'clickable-icon nav-action-button'});
+		setIcon(refreshBtn, 'refresh-cw');
+		setTooltip(refreshBtn, 'Refresh');
+		refreshBtn.addEventListener('click', () => { void this.open(this.prefix); });
+
+		navHeader.createDiv({cls: 'r2-browser-prefix', text: `/${this.prefix}`});
+
+		const searchInput = el.createDiv('r2-browser-search').createEl('input', {type: 'search', placeholder: 'Search loaded objects'});
+		searchInput.value = this.search;
+		searchInput.addEventListener('input', () => {
+			this.search = searchInput.value.trim().toLowerCase();
+			void this.renderList();
+		});
+
+		this.listEl = el.createDiv('nav-files-container');
+	}
+
+	private async renderList() {
+		const list = this.listEl;
+		if (!list) return;
+		// Record lookups are async: look everything up first, and let a newer render win
+		const token = ++this.renderToken;
+		const matches = (key: string) => !this.search || key.toLowerCase().includes(this.search);
+		const objects = this.objects.filter(o => matches(o.key));
+		const uses = await Promise.all(objects.map(o => this.usesOf(o.key)));
+		if (token !== this.renderToken) return;
+		list.empty();
+
+		if (this.error) {
+			list.createDiv({cls: 'r2-row-error', text: this.error});
+			return;
+		}
+
+		for (const prefix of this.prefixes.filter(matches)) {
+			const row = list.createDiv('tree-item nav-folder').createDiv('tree-item-self is-clickable nav-folder-title r2-browser-row');
+			setIcon(row.createDiv('r2-status-icon'), 'folder');
+			row.createDiv({cls: 'tree-item-inner nav-folder-title-content', text: prefix.slice(this.prefix.length)});
+			row.addEventListener('click', () => { void this.open(prefix); });
+		}
+
+		objects.forEach((object, i) => this.renderObject(list, object, uses[i] ?? []));
+
+		if (this.loading) {
+			setIcon(list.createDiv('r2-spinning r2-browser-loading'), 'loader');
+		} else if (this.cursor) {
+			const more = list.createEl('button', {cls: 'r2-browser-more', text: 'Load more'});
+			more.addEventListener('click', () => { void this.loadPage(); });
+		} else if (this.objects.length === 0 && this.prefixes.length === 0) {
+			const empty = list.createDiv('r2-empty');
+			setIcon(empty.createSpan('r2-empty-icon'), 'folder-open');
+			empty.createSpan({cls: 'r2-empty-text', text: 'No objects here.'});
+		}
+	}
+
+	// Uploads of this object that a note still took up
+	private async usesOf(key: string): Promise<UploadRecord[]> {
+		const url = this.urlFor(key);
+		return url ? (await this.plugin.records.findUploadsByUrl(url)).filter(u => !u.skipped) : [];
+	}
+
+	private renderObject(parent: HTMLElement, object: ListedObject, uses: UploadRecord[]) {
+		const name = object.key.slice(this.prefix.length);
+		const url = this.urlFor(object.key);
+
+		const navFile = parent.createDiv('tree-item nav-file');
+		const row = navFile.createDiv('tree-item-self is-clickable nav-file-title r2-browser-row');
+
+		const ext = name.split('.').pop()?.toLowerCase() ?? '';
+		const thumb = row.createDiv('r2-browser-thumb');
+		if (url && IMAGE_EXTENSIONS.includes(ext)) {
+			thumb.createEl('img', {attr: {src: url, loading: 'lazy', alt: ''}});
+		} else {
+			setIcon(thumb, 'file');
+		}
+
+		row.createDiv({cls: 'tree-item-inner nav-file-title-content', text: name});
+		if (uses.length) {
+			const notes = [...new Set(uses.map(u => u.notePath))];
+			const badge = row.createSpan({cls: 'r2-origin-badge r2-origin-r2', text: String(notes.length)});
+			setTooltip(badge, `Used in ${notes.join(', ')}`);
+		}
+
+		const tools = row.createDiv('r2-tools');
+		const copyBtn = tools.createDiv({cls: 'clickable-icon' + (url ? '' : ' is-disabled')});
+		setIcon(copyBtn, 'copy');
+		setTooltip(copyBtn, 'Copy URL');
+
+		if (url) {
+			row.addEventListener('click', () => this.insert(name, url));
+			setTooltip(row, 'Insert into note');
+			copyBtn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				void navigator.clipboard.writeText(url).then(() => new Notice('Images → R2: URL copied.'));
+			});
+		}
+
+		const meta = [formatSize(object.size)];
+		if (object.lastModified) meta.push(moment(object.lastModified).format('YYYY-MM-DD'));
+		navFile.createDiv({cls: 'r2-history-meta', text: meta.join(' · ')});
+	}
+
+	// Insert at the cursor of the note that was focused before the panel
+	private insert(name: string, url: string) {
+		const leaf = this.app.workspace.getMostRecentLeaf();
+		const view = leaf?.view;
+		if (!(view instanceof MarkdownView)) {
+			new Notice('Images → R2: open a note to insert the image into.');
+			return;
+		}
+		const alt = name.split('/').pop()?.replace(/\.[^.]+$/, '') ?? name;
+		// Same link format and escaping as an upload from this note
+		const embed: LocalEmbed = {kind: 'markdown', fullMatch: '', index: 0, imagePath: name, alt: '', size: '', caption: ''};
+		view.editor.replaceSelection(this.plugin.formatUploadedLink(embed, url, alt, view.file));
+		this.app.workspace.setActiveLeaf(view.leaf, {focus: true});
+	}
+}
@@ -0,0 +1,289 @@
+import {App, Modal, Notice, Setting, TFile} from 'obsidian';
+import type ImagesR2Plugin from './main';
+import type {UploadSuccess} from './main';
+import {LocalEmbed, findLocalEmbeds} from './embeds';
+import {rewriteEmbeds} from './rewrite';
+import {ENABLED_KEY} from './frontmatter';
+import {UploadedOriginal, removeOriginals} from './originals';
+
+interface BulkEmbed {
+	embed: LocalEmbed;
+	file: TFile;
+}
+
+interface BulkNote {
+	note: TFile;
+	embeds: BulkEmbed[];   // one per distinct embed text in the note
+	uploaded: number;
+	failed: number;
+	errors: string[];
+}
+
+interface BulkPlan {
+	notes: BulkNote[];
+	images: Map<string, TFile>;   // unique local images, keyed by vault path
+	skipped: number;              // notes left alone because of r2: false
+}
+
+async function scanNotes(plugin: ImagesR2Plugin, notes: TFile[]): Promise<BulkPlan> {
+	const plan: BulkPlan = {notes: [], images: new Map(), skipped: 0};
+	for (const note of notes) {
+		if (!plugin.noteOptions(note).enabled) {
+			plan.skipped++;
+			continue;
+		}
+		const content = await plugin.app.vault.cachedRead(note);
+		const seen = new Set<string>();
+		const embeds: BulkEmbed[] = [];
+		for (const embed of findLocalEmbeds(content)) {
+			if (seen.has(embed.fullMatch)) continue;
+			seen.add(embed.fullMatch);
+			const file = plugin.resolveImageFile(embed.imagePath, note);
+			if (!file) continue;
+			embeds.push({embed, file});
+			plan.images.set(file.path, file);
+		}
+		if (embeds.length) plan.notes.push({note, embeds, uploaded: 0, failed: 0, errors: []});
+	}
+	return plan;
+}
+
+class BulkConfirmModal extends Modal {
+	private plan: BulkPlan;
+	private scopeLabel: string;
+	private onConfirm: () => void;
+
+	constructor(app: App, plan: BulkPlan, scope: string, onConfirm: () => void) {
+		super(app);
+		this.plan = plan;
+		this.scopeLabel = scope;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		this.setTitle('Upload local images');
+		const images = this.plan.images.size;
+		const notes = this.plan.notes.length;
+		contentEl.createEl('p', {
+			text: `Found ${images} local image${images === 1 ? '' : 's'} across ${notes} note${notes === 1 ? '' : 's'} in ${this.scopeLabel}. ` +
+				'Each image is uploaded once and every note that embeds it is rewritten.' +
+				(this.plan.skipped ? ` ${this.plan.skipped} note${this.plan.skipped === 1 ? ' is' : 's are'} skipped because of ${ENABLED_KEY}: false.` : ''),
+		});
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(btn => btn
+				.setButtonText('Upload')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onConfirm();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+class BulkProgressModal extends Modal {
+	cancelled = false;
+	onCancel: () => void = () => {};
+	private plan: BulkPlan;
+	private done = 0;
+	private current = new Set<string>();
+	private finished = false;
+
+	constructor(app: App, plan: BulkPlan) {
+		super(app);
+		this.plan = plan;
+	}
+
+	onOpen() {
+		this.setTitle('Uploading images');
+		this.render();
+	}
+
+	onClose() {
+		// Closing the modal mid-run cancels whatever has not finished yet
+		if (!this.finished) this.cancel();
+		this.contentEl.empty();
+	}
+
+	private cancel() {
+		if (this.cancelled) return;
+		this.cancelled = true;
+		this.onCancel();
+	}
+
+	start(path: string) {
+		this.current.add(path);
+		this.render();
+	}
+
+	advance(path: string) {
+		this.current.delete(path);
+		this.done++;
+		this.render();
+	}
+
+	finish() {
+		this.finished = true;
+		this.current.clear();
+		this.render();
+	}
+
+	private render() {
+		const el = this.contentEl;
+		el.empty();
+
+		const total = this.plan.images.size;
+		const failed = this.plan.notes.reduce((n, entry) => n + entry.failed, 0);
+		const summary = el.createDiv('r2-bulk-summary');
+		summary.createSpan({text: `${this.done} / ${total} images`});
+		if (failed) summary.createSpan({cls: 'r2-bulk-failed', text: ` · ${failed} failed`});
+		if (this.finished && this.cancelled) summary.createSpan({text: ' · cancelled'});
+		const progress = el.createEl('progress', {cls: 'r2-bulk-progress'});
+		progress.max = total;
+		progress.value = this.done;
+		for (const path of this.current) el.createDiv({cls: 'r2-bulk-current', text: path});
+
+		const list = el.createDiv('r2-bulk-notes');
+		for (const entry of this.plan.notes) {
+			const row = list.createDiv('r2-bulk-note');
+			row.createSpan({cls: 'r2-bulk-note-name', text: entry.note.path});
+			row.createSpan({cls: 'r2-bulk-note-count', text: `${entry.uploaded}/${entry.embeds.length}`});
+			if (entry.failed) row.createSpan({cls: 'r2-bulk-failed', text: `${entry.failed} failed`});
+			for (const error of entry.errors) list.createDiv({cls: 'r2-row-error', text: error});
+		}
+
+		new Setting(el).addButton(btn => {
+			if (this.finished) {
+				btn.setButtonText('Close').setCta().onClick(() => this.close());
+			} else {
+				btn.setButtonText(this.cancelled ? 'Cancelling…' : 'Cancel').setDisabled(this.cancelled).onClick(() => {
+					this.cancel();
+					this.render();
+				});
+			}
+		});
+	}
+}
+
+interface BulkUpload {
+	id: string;
+	file: TFile;
+	baseUrl: string;
+	referencing: BulkNote[];   // notes embedding the file that route to the same bucket profile
+}
+
+// One upload per image and bucket profile: an image shared by work and personal notes goes to both buckets.
+// Notes whose profile has no upload URL count as failed and the rest still go ahead.
+async function planUploads(plugin: ImagesR2Plugin, plan: BulkPlan): Promise<BulkUpload[]> {
+	const baseUrls = new Map<string, string | null>();
+	const uploads: BulkUpload[] = [];
+	for (const file of plan.images.values()) {
+		const byProfile = new Map<string, BulkNote[]>();
+		for (const entry of plan.notes) {
+			const embeds = entry.embeds.filter(e => e.file === file);
+			if (!embeds.length) continue;
+			const profile = plugin.profileFor(entry.note);
+			const name = profile.success ? profile.name : '';
+			// uploadBaseUrl explains a missing URL in a notice, once per profile
+			if (!baseUrls.has(name)) baseUrls.set(name, await plugin.uploadBaseUrl(entry.note));
+			if (!baseUrls.get(name)) {
+				entry.failed += embeds.length;
+				entry.errors.push(`${file.name}: ${profile.success ? `no upload URL for bucket profile "${name}"` : profile.error}`);
+				continue;
+			}
+			byProfile.set(name, [...byProfile.get(name) ?? [], entry]);
+		}
+		for (const [name, referencing] of byProfile) {
+			uploads.push({id: `bulk:${name}:${file.path}`, file, baseUrl: baseUrls.get(name) ?? '', referencing});
+		}
+	}
+	return uploads;
+}
+
+async function runBulkUpload(plugin: ImagesR2Plugin, plan: BulkPlan) {
+	// Unlock once up front, rather than asking again for every bucket profile
+	if (!await plugin.ensureUnlocked()) {
+		new Notice('Images → R2: uploads are blocked until the secrets are unlocked.');
+		return;
+	}
+	const planned = await planUploads(plugin, plan);
+
+	const modal = new BulkProgressModal(plugin.app, plan);
+	modal.onCancel = () => planned.forEach(upload => plugin.transfers.cancel(upload.id));
+	modal.open();
+
+	const uploaded: UploadedOriginal[] = [];
+	const remaining = new Map<TFile, number>();
+	for (const {file} of planned) remaining.set(file, (remaining.get(file) ?? 0) + 1);
+	// Images none of whose notes could be planned are already settled
+	for (const file of plan.images.values()) if (!remaining.has(file)) modal.advance(file.path);
+	const uploads = planned.map(async ({id, file, baseUrl, referencing}) => {
+		const outcome = await plugin.transfers.add({
+			id,
+			run: async (isCancelled) => {
+				modal.start(file.path);
+				const result = await plugin.uploadImageFile(file, baseUrl, referencing[0]?.note ?? null);
+				if (!result.success) return result;
+				if (isCancelled()) return {success: false, error: 'Cancelled', cancelled: true};
+				const rewritten = await rewriteReferencingNotes(plugin, file, result, referencing);
+				uploaded.push({file, notes: rewritten});
+				return {success: true};
+			},
+		});
+		if (!outcome.success) {
+			for (const entry of referencing) {
+				entry.failed += entry.embeds.filter(e => e.file === file).length;
+				entry.errors.push(`${file.name}: ${outcome.error}`);
+			}
+		}
+		const left = (remaining.get(file) ?? 1) - 1;
+		remaining.set(file, left);
+		if (left === 0) modal.advance(file.path);
+	});
+	await Promise.all(uploads);
+
+	modal.finish();
+	await removeOriginals(plugin, uploaded);
+}
+
+// Rewrite every note that embeds an uploaded image, recording one upload per note.
+// Returns the notes that were rewritten.
+async function rewriteReferencingNotes(plugin: ImagesR2Plugin, file: TFile, result: UploadSuccess, referencing: BulkNote[]): Promise<TFile[]> {
+	const rewritten: TFile[] = [];
+	for (const entry of referencing) {
+		const embeds = entry.embeds.filter(e => e.file === file);
+		try {
+			const count = await rewriteEmbeds(plugin.app, entry.note, embeds.map(e => ({
+				fullMatch: e.embed.fullMatch,
+				replacement: plugin.formatUploadedLink(e.embed, result.publicUrl, file.name, entry.note),
+			})));
+			// The note changed since the scan; without a link to it the upload is not the note's
+			if (count === 0) throw new Error('The link is no longer in the note');
+			entry.uploaded += embeds.length;
+			rewritten.push(entry.note);
+			await plugin.recordUpload(file, result, entry.note);
+		} catch (err) {
+			entry.failed += embeds.length;
+			entry.errors.push(`${file.name}: ${(err as Error).message}`);
+		}
+	}
+	return rewritten;
+}
+
+// Scan the given notes, confirm the totals with the user, then upload with a progress modal
+export async function uploadNotes(plugin: ImagesR2Plugin, notes: TFile[], scope: string) {
+	const plan = await scanNotes(plugin, notes);
+	if (plan.images.size === 0) {
+		new Notice(`Images → R2: no local images found in ${scope}.` +
+			(plan.skipped ? ` Skipped ${plan.skipped} note${plan.skipped === 1 ? '' : 's'} with ${ENABLED_KEY}: false.` : ''));
+		return;
+	}
+	new BulkConfirmModal(plugin.app, plan, scope, () => { void runBulkUpload(plugin, plan); }).open();
+}
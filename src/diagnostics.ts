@@ -0,0 +1,145 @@
+import {requestUrl} from 'obsidian';
+import type ImagesR2Plugin from './main';
+import type {ImagesR2Settings} from './settings';
+import {S3Provider, fetchManagedDomainInfo} from './storage';
+import {isR2Endpoint, s3ErrorMessage} from './s3';
+import {encodeKey} from './keys';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface CheckResult {
+	name: string;
+	status: CheckStatus;
+	detail: string;
+}
+
+const CF_API = 'https://api.cloudflare.com/client/v4';
+const TEST_BODY = 'Images → R2 connection test. Safe to delete.';
+
+function errorText(err: unknown): string {
+	return err instanceof Error ? err.message : String(err);
+}
+
+// Account-owned tokens only verify against the account endpoint, user tokens only against /user
+async function checkToken(settings: ImagesR2Settings): Promise<CheckResult> {
+	const name = 'API token';
+	const {accountId, r2Token} = settings;
+	let lastStatus = 0;
+	for (const url of [`${CF_API}/accounts/${accountId}/tokens/verify`, `${CF_API}/user/tokens/verify`]) {
+		try {
+			const response = await requestUrl({url, headers: {'Authorization': `Bearer ${r2Token}`}, throw: false});
+			lastStatus = response.status;
+			if (response.status !== 200) continue;
+			const status = (response.json as {result?: {status?: string}}).result?.status;
+			if (status === 'active') return {name, status: 'pass', detail: 'Token is valid and active.'};
+			return {name, status: 'fail', detail: `Token is ${status ?? 'not active'}. Create a new one under R2 → Manage API tokens.`};
+		} catch (err) {
+			return {name, status: 'fail', detail: `Could not reach Cloudflare: ${errorText(err)}`};
+		}
+	}
+	return {name, status: 'fail', detail: `Cloudflare rejected the token (HTTP ${lastStatus}). Check it was copied in full and has not been revoked.`};
+}
+
+async function checkCloudflareBucket(settings: ImagesR2Settings): Promise<CheckResult> {
+	const name = 'Bucket';
+	const {accountId, r2Token, bucketName} = settings;
+	try {
+		const response = await requestUrl({
+			url: `${CF_API}/accounts/${accountId}/r2/buckets/${bucketName}`,
+			headers: {'Authorization': `Bearer ${r2Token}`},
+			throw: false,
+		});
+		if (response.status === 200) return {name, status: 'pass', detail: `Bucket "${bucketName}" exists.`};
+		if (response.status === 404) return {name, status: 'fail', detail: `No bucket named "${bucketName}" in this account. Check the spelling and the account ID.`};
+		if (response.status === 403) return {name, status: 'fail', detail: 'The token cannot access R2 in this account. It needs the Workers R2 Storage: Edit permission, and the account ID must match.'};
+		return {name, status: 'fail', detail: `HTTP ${response.status}`};
+	} catch (err) {
+		return {name, status: 'fail', detail: errorText(err)};
+	}
+}
+
+// One ListObjects call proves the keys, the signing region and the bucket together
+async function checkS3Bucket(plugin: ImagesR2Plugin): Promise<CheckResult> {
+	const name = 'Credentials and bucket';
+	const {bucketName} = plugin.settings;
+	try {
+		const response = await new S3Provider(plugin.settings).client().listObjects('', '/', null, 1);
+		if (response.status === 200) return {name, status: 'pass', detail: `Signed in and bucket "${bucketName}" is readable.`};
+		if (response.status === 404) return {name, status: 'fail', detail: `No bucket named "${bucketName}" at this endpoint.`};
+		if (response.status === 403) return {name, status: 'fail', detail: `Access denied: ${s3ErrorMessage(response)}. Check the key pair and the region.`};
+		return {name, status: 'fail', detail: s3ErrorMessage(response)};
+	} catch (err) {
+		return {name, status: 'fail', detail: `Could not reach the endpoint: ${errorText(err)}`};
+	}
+}
+
+async function checkManagedDomain(settings: ImagesR2Settings): Promise<CheckResult> {
+	const name = 'r2.dev domain';
+	const {accountId, r2Token, bucketName, customDomain, backend, s3Endpoint} = settings;
+	if (backend === 's3' && s3Endpoint && !isR2Endpoint(s3Endpoint)) {
+		return {name, status: 'skip', detail: 'Not an R2 endpoint.'};
+	}
+	if (!accountId || !r2Token) return {name, status: 'skip', detail: 'Needs the account ID and R2 API token.'};
+	const managed = await fetchManagedDomainInfo(accountId, r2Token, bucketName);
+	if (!managed) return {name, status: 'warn', detail: 'Could not read the managed domain settings.'};
+	if (managed.enabled) return {name, status: 'pass', detail: `Enabled: ${managed.url}`};
+	return customDomain
+		? {name, status: 'skip', detail: 'Disabled. The custom domain is used instead.'}
+		: {name, status: 'fail', detail: 'Disabled and no custom domain is set, so images would have no public URL. Enable it under the bucket\'s Settings → Public access.'};
+}
+
+// Fetch the test object back through the URL notes will use
+async function checkPublicUrl(plugin: ImagesR2Plugin, key: string): Promise<CheckResult> {
+	const name = plugin.settings.customDomain ? 'Custom domain' : 'Public URL';
+	const storage = plugin.storage();
+	const baseUrl = await storage.resolveBaseUrl();
+	if (!baseUrl) return {name, status: 'fail', detail: storage.missingUrlHint()};
+	const url = `${baseUrl}/${encodeKey(key)}`;
+	try {
+		const response = await requestUrl({url, throw: false});
+		if (response.status === 200 && response.text === TEST_BODY) return {name, status: 'pass', detail: `Serves the test object from ${baseUrl}.`};
+		if (response.status === 200) return {name, status: 'warn', detail: `${baseUrl} answered with different content. It may point at another bucket or folder.`};
+		return {name, status: 'fail', detail: `${url} returned HTTP ${response.status}. Check the domain is connected to this bucket and public.`};
+	} catch (err) {
+		return {name, status: 'fail', detail: `Could not reach ${baseUrl}: ${errorText(err)}`};
+	}
+}
+
+// Run each check in order, reporting as it goes; stops early when later checks cannot succeed
+export async function testConnection(plugin: ImagesR2Plugin, report: (result: CheckResult) => void) {
+	const {settings} = plugin;
+	const storage = plugin.storage();
+	if (!storage.isConfigured()) {
+		report({name: 'Settings', status: 'fail', detail: 'Fill in the settings above for this backend first.'});
+		return;
+	}
+
+	if (settings.backend === 'cloudflare-api') {
+		const token = await checkToken(settings);
+		report(token);
+		if (token.status === 'fail') return;
+		const bucket = await checkCloudflareBucket(settings);
+		report(bucket);
+		if (bucket.status === 'fail') return;
+	} else if (settings.backend === 's3') {
+		const bucket = await checkS3Bucket(plugin);
+		report(bucket);
+		if (bucket.status === 'fail') return;
+	}
+
+	const key = `images-r2-connection-test-${Date.now()}.txt`;
+	const put = await storage.put(key, new TextEncoder().encode(TEST_BODY).buffer, 'text/plain');
+	if (!put.success) {
+		report({name: 'Write access', status: 'fail', detail: `Could not upload a test object: ${put.error}`});
+		return;
+	}
+	report({name: 'Write access', status: 'pass', detail: `Uploaded ${key}.`});
+
+	if (settings.backend === 'cloudflare-api' || settings.backend === 's3') report(await checkManagedDomain(settings));
+	report(await checkPublicUrl(plugin, key));
+
+	const removed = await storage.delete(key);
+	report(removed.success
+		? {name: 'Clean up', status: 'pass', detail: 'Deleted the test object.'}
+		: {name: 'Clean up', status: 'warn', detail: `Could not delete ${key}: ${removed.error}`});
+}
@@ -0,0 +1,213 @@
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'ico', 'tiff', 'tif'];
+
+const IMAGE_PATH = new RegExp(`\\.(${IMAGE_EXTENSIONS.join('|')})$`, 'i');
+const SIZE = /^\d+(x\d+)?$/;
+
+export type EmbedKind = 'wiki' | 'markdown' | 'html';
+
+export interface LocalEmbed {
+	kind: EmbedKind;
+	fullMatch: string;   // ![[img.png|300]], ![alt](img.png) or <img src="img.png">
+	index: number;       // offset of fullMatch in the note
+	imagePath: string;   // link path without #anchor, size or alias
+	alt: string;         // alias / alt text ('' if none)
+	size: string;        // '300' or '300x200' ('' if none)
+	caption: string;     // markdown title or HTML title attribute ('' if none)
+}
+
+export interface RemoteEmbed {
+	kind: 'markdown' | 'html';
+	fullMatch: string;   // ![alt](https://…) or <img src="https://…">
+	index: number;
+	alt: string;         // markdown label (may end in |size) or the alt attribute
+	url: string;
+}
+
+type Range = [number, number];   // [start, end) offsets
+
+// Spans where embed syntax is only text: YAML frontmatter, fenced code blocks and inline code
+export function ignoredRanges(content: string): Range[] {
+	const ranges: Range[] = [];
+	let offset = 0;
+	let lineNo = 0;
+	let fence: {char: string; length: number; start: number} | null = null;
+	let frontmatter = /^---\r?\n/.test(content);
+
+	for (const line of content.split('\n')) {
+		const lineEnd = offset + line.length + 1;
+		const text = line.replace(/\r$/, '');
+		if (frontmatter) {
+			if (lineNo > 0 && (text === '---' || text === '...')) {
+				ranges.push([0, lineEnd]);
+				frontmatter = false;
+			}
+		} else if (fence) {
+			const close = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(text);
+			if (close?.[1] && close[1][0] === fence.char && close[1].length >= fence.length) {
+				ranges.push([fence.start, lineEnd]);
+				fence = null;
+			}
+		} else {
+			const open = /^ {0,3}(`{3,}|~{3,})/.exec(text);
+			if (open?.[1]) fence = {char: open[1][0] ?? '`', length: open[1].length, start: offset};
+		}
+		offset = lineEnd;
+		lineNo++;
+	}
+	// Unclosed frontmatter is just text; an unclosed fence runs to the end of the note
+	if (fence) ranges.push([fence.start, content.length]);
+
+	// Inline code: a run of N backticks closed by the next run of exactly N in the same paragraph
+	const blocks = [...ranges];
+	const blankLine = /\n[ \t]*\r?\n/g;
+	const tickRegex = /`+/g;
+	let open: RegExpExecArray | null;
+	while ((open = tickRegex.exec(content)) !== null) {
+		if (inRanges(open.index, blocks)) continue;
+		const runRegex = /`+/g;
+		runRegex.lastIndex = open.index + open[0].length;
+		let close: RegExpExecArray | null;
+		while ((close = runRegex.exec(content)) !== null && close[0].length !== open[0].length) { /* keep looking */ }
+		blankLine.lastIndex = open.index;
+		const paragraphEnd = blankLine.exec(content)?.index ?? content.length;
+		if (!close || close.index > paragraphEnd) continue;
+		const end = close.index + close[0].length;
+		ranges.push([open.index, end]);
+		tickRegex.lastIndex = end;
+	}
+
+	return ranges.sort((a, b) => a[0] - b[0]);
+}
+
+function inRanges(index: number, ranges: Range[]): boolean {
+	return ranges.some(([start, end]) => index >= start && index < end);
+}
+
+function isImagePath(path: string): boolean {
+	return IMAGE_PATH.test(path);
+}
+
+function isLocalPath(path: string): boolean {
+	// Anything with a scheme (https:, data:, app:, file:) is not a vault path
+	return !/^[a-z][a-z0-9+.-]*:/i.test(path);
+}
+
+function decodePath(path: string): string {
+	try { return decodeURIComponent(path); } catch { return path; }
+}
+
+// `alt|300` → alt + size; Obsidian reads a trailing numeric segment as the display size
+export function splitAltAndSize(label: string): {alt: string; size: string} {
+	const parts = label.split('|');
+	const last = parts[parts.length - 1]?.trim() ?? '';
+	if (parts.length > 1 && SIZE.test(last)) {
+		return {alt: parts.slice(0, -1).join('|').trim(), size: last};
+	}
+	if (SIZE.test(label.trim())) return {alt: '', size: label.trim()};
+	return {alt: label.trim(), size: ''};
+}
+
+function htmlAttr(tag: string, name: string): string | null {
+	const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+	if (!match) return null;
+	return match[1] ?? match[2] ?? match[3] ?? '';
+}
+
+// Local image embeds in a note: wiki embeds (with size, alias or #anchor),
+// markdown images with a relative path, and HTML <img> tags. Matches inside
+// frontmatter or code are skipped.
+export function findLocalEmbeds(content: string, ignored = ignoredRanges(content)): LocalEmbed[] {
+	const embeds: LocalEmbed[] = [];
+
+	// ![[img.png]], ![[img.png|300]], ![[img.png|alt|300]], ![[img.png#anchor]]
+	const wikiRegex = /!\[\[([^\]|#]+)(#[^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+	for (const m of content.matchAll(wikiRegex)) {
+		const imagePath = (m[1] ?? '').trim();
+		if (!isImagePath(imagePath)) continue;
+		embeds.push({kind: 'wiki', fullMatch: m[0], index: m.index ?? 0, imagePath, caption: '', ...splitAltAndSize(m[3] ?? '')});
+	}
+
+	// ![alt](attachments/img.png), ![alt|300](<my image.png> "title")
+	const markdownRegex = /!\[([^\]]*)\]\(\s*(<[^>]+>|[^)\s]+)(?:\s+"([^"]*)")?\s*\)/g;
+	for (const m of content.matchAll(markdownRegex)) {
+		const rawPath = (m[2] ?? '').replace(/^<|>$/g, '');
+		const imagePath = decodePath(rawPath.split('#')[0] ?? rawPath);
+		if (!isLocalPath(imagePath) || !isImagePath(imagePath)) continue;
+		embeds.push({kind: 'markdown', fullMatch: m[0], index: m.index ?? 0, imagePath, caption: m[3] ?? '', ...splitAltAndSize(m[1] ?? '')});
+	}
+
+	// <img src="attachments/img.png" width="300" alt="…">
+	const htmlRegex = /<img\s[^>]*>/gi;
+	for (const m of content.matchAll(htmlRegex)) {
+		const src = htmlAttr(m[0], 'src');
+		if (!src) continue;
+		const imagePath = decodePath(src);
+		if (!isLocalPath(imagePath) || !isImagePath(imagePath)) continue;
+		embeds.push({
+			kind: 'html',
+			fullMatch: m[0],
+			index: m.index ?? 0,
+			imagePath,
+			alt: htmlAttr(m[0], 'alt') ?? '',
+			size: htmlAttr(m[0], 'width') ?? '',
+			caption: htmlAttr(m[0], 'title') ?? '',
+		});
+	}
+
+	return embeds
+		.filter(e => !inRanges(e.index, ignored))
+		.sort((a, b) => a.index - b.index);
+}
+
+// Remote images: ![alt](https://…) and <img src="https://…">
+export function findRemoteEmbeds(content: string, ignored = ignoredRanges(content)): RemoteEmbed[] {
+	const embeds: RemoteEmbed[] = [];
+
+	// ![alt](https://…/a%20(1).png "title"), ![alt](<https://…>); alt and title may hold backslash escapes
+	const markdownRegex = /!\[((?:[^\]\\]|\\.)*)\]\(\s*(<https?:\/\/[^>]+>|https?:\/\/(?:[^()\s]|\([^()\s]*\))+)(?:\s+"(?:[^"\\]|\\.)*")?\s*\)/gi;
+	for (const m of content.matchAll(markdownRegex)) {
+		const alt = (m[1] ?? '').replace(/\\([\\[\]"])/g, '$1');
+		embeds.push({kind: 'markdown', fullMatch: m[0], index: m.index ?? 0, alt, url: (m[2] ?? '').replace(/^<|>$/g, '')});
+	}
+
+	const htmlRegex = /<img\s[^>]*>/gi;
+	for (const m of content.matchAll(htmlRegex)) {
+		const src = htmlAttr(m[0], 'src');
+		if (!src || !/^https?:\/\//i.test(src)) continue;
+		embeds.push({kind: 'html', fullMatch: m[0], index: m.index ?? 0, alt: htmlAttr(m[0], 'alt') ?? '', url: src});
+	}
+
+	return embeds
+		.filter(e => !inRanges(e.index, ignored))
+		.sort((a, b) => a.index - b.index);
+}
+
+// Offsets of real (non-code, non-frontmatter) embeds whose text is exactly fullMatch
+export function findEmbedOffsets(content: string, fullMatch: string): number[] {
+	const ignored = ignoredRanges(content);
+	return [...findLocalEmbeds(content, ignored), ...findRemoteEmbeds(content, ignored)]
+		.filter(e => e.fullMatch === fullMatch)
+		.map(e => e.index)
+		.sort((a, b) => a - b);
+}
+
+export interface TextChange {
+	from: number;   // offset where the replaced text starts
+	to: number;     // offset where it ends
+	text: string;   // replacement text
+}
+
+// One change per real occurrence of fullMatch, so code and frontmatter stay untouched
+export function embedChanges(content: string, fullMatch: string, replacement: string): TextChange[] {
+	return findEmbedOffsets(content, fullMatch)
+		.map(from => ({from, to: from + fullMatch.length, text: replacement}));
+}
+
+// Apply non-overlapping changes expressed in offsets of the original content
+export function applyChanges(content: string, changes: TextChange[]): string {
+	let result = content;
+	for (const change of [...changes].sort((a, b) => b.from - a.from)) {
+		result = result.slice(0, change.from) + change.text + result.slice(change.to);
+	}
+	return result;
+}
@@ -0,0 +1,28 @@
+import {App} from 'obsidian';
+
+export async function ensureFolder(app: App, folderPath: string) {
+	if (!folderPath) return;
+	const parts = folderPath.split('/');
+	let current = '';
+	for (const part of parts) {
+		current = current ? `${current}/${part}` : part;
+		if (!app.vault.getAbstractFileByPath(current)) {
+			try { await app.vault.createFolder(current); } catch { /* already exists */ }
+		}
+	}
+}
+
+export function uniquePath(app: App, path: string): string {
+	if (!app.vault.getAbstractFileByPath(path)) return path;
+	const lastDot = path.lastIndexOf('.');
+	const base = lastDot >= 0 ? path.slice(0, lastDot) : path;
+	const ext = lastDot >= 0 ? path.slice(lastDot) : '';
+	const uid = crypto.randomUUID().slice(0, 8);
+	return `${base}-${uid}${ext}`;
+}
+
+export function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,34 @@
+import {App, TFile} from 'obsidian';
+import {LINK_FORMATS, LinkFormat} from './linkformat';
+
+export const ENABLED_KEY = 'r2';
+export const PREFIX_KEY = 'r2-prefix';
+export const LINK_FORMAT_KEY = 'r2-link-format';
+
+// Per-note overrides read from frontmatter
+export interface NoteOptions {
+	enabled: boolean;              // false when the note says r2: false
+	prefix: string;                // folder prepended to object keys ('' if none)
+	linkFormat: LinkFormat | null; // null uses the upload link format from settings
+}
+
+export function frontmatterOf(app: App, note: TFile): Record<string, unknown> {
+	return (app.metadataCache.getFileCache(note)?.frontmatter ?? {}) as Record<string, unknown>;
+}
+
+export function noteOptions(app: App, note: TFile | null): NoteOptions {
+	const frontmatter = note ? frontmatterOf(app, note) : {};
+	const enabled = frontmatter[ENABLED_KEY];
+	const prefix = frontmatter[PREFIX_KEY];
+	const format = frontmatter[LINK_FORMAT_KEY];
+	return {
+		// YAML `false` arrives as a boolean, but accept a quoted "false" too
+		enabled: enabled !== false && String(enabled).toLowerCase() !== 'false',
+		prefix: typeof prefix === 'string' || typeof prefix === 'number'
+			? String(prefix).trim().replace(/^\/+|\/+$/g, '')
+			: '',
+		linkFormat: typeof format === 'string' && LINK_FORMATS.includes(format.toLowerCase() as LinkFormat)
+			? format.toLowerCase() as LinkFormat
+			: null,
+	};
+}
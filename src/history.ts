@@ -0,0 +1,178 @@
+import {ItemView, Notice, TFile, WorkspaceLeaf, moment, setIcon, setTooltip} from 'obsidian';
+import type ImagesR2Plugin from './main';
+import {ImageRecord, RecordQuery, recordUrl, recordsToCsv} from './records';
+
+export const VIEW_TYPE_R2_HISTORY = 'r2-history';
+
+// The file explorer has no public API for revealing a file
+interface InternalPlugins {
+	internalPlugins?: {getPluginById(id: string): {instance?: {revealInFolder(file: TFile): void}} | null};
+}
+
+export class R2HistoryView extends ItemView {
+	plugin: ImagesR2Plugin;
+	private query: RecordQuery = {};
+	private listEl: HTMLElement | null = null;
+	private shown: ImageRecord[] = [];
+
+	constructor(leaf: WorkspaceLeaf, plugin: ImagesR2Plugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() { return VIEW_TYPE_R2_HISTORY; }
+	getDisplayText() { return 'Images → R2 history'; }
+	getIcon() { return 'history'; }
+
+	async onOpen() {
+		this.register(this.plugin.records.onChange(() => { void this.refresh(); }));
+		await this.renderFilters();
+		await this.refresh();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	private async renderFilters() {
+		const el = this.contentEl;
+		el.empty();
+
+		const navHeader = el.createDiv('nav-header');
+		const navButtons = navHeader.createDiv('nav-buttons-container');
+
+		const csvBtn = navButtons.createDiv({cls: 'clickable-icon nav-action-button'});
+		setIcon(csvBtn, 'file-spreadsheet');
+		setTooltip(csvBtn, 'Export CSV');
+		csvBtn.addEventListener('click', () => { void this.export('csv'); });
+
+		const jsonBtn = navButtons.createDiv({cls: 'clickable-icon nav-action-button'});
+		setIcon(jsonBtn, 'file-json');
+		setTooltip(jsonBtn, 'Export JSON');
+		jsonBtn.addEventListener('click', () => { void this.export('json'); });
+
+		const refreshBtn = navButtons.createDiv({cls: 'clickable-icon nav-action-button'});
+		setIcon(refreshBtn, 'refresh-cw');
+		setTooltip(refreshBtn, 'Refresh');
+		refreshBtn.addEventListener('click', () => { void this.refresh(); });
+
+		const filters = el.createDiv('r2-history-filters');
+
+		const nameInput = filters.createEl('input', {type: 'search', placeholder: 'Filter by file name'});
+		nameInput.addEventListener('input', () => {
+			this.query.fileName = nameInput.value.trim() || undefined;
+			void this.refresh();
+		});
+
+		const typeSelect = filters.createEl('select', {cls: 'dropdown'});
+		for (const [value, label] of [['', 'All types'], ['upload', 'Uploads'], ['download', 'Downloads'], ['removal', 'Removed originals'], ['deletion', 'Deleted objects']]) {
+			typeSelect.createEl('option', {value, text: label});
+		}
+		typeSelect.addEventListener('change', () => {
+			this.query.type = (typeSelect.value || undefined) as RecordQuery['type'];
+			void this.refresh();
+		});
+
+		const noteSelect = filters.createEl('select', {cls: 'dropdown'});
+		noteSelect.createEl('option', {value: '', text: 'All notes'});
+		for (const path of await this.plugin.records.notePaths()) {
+			noteSelect.createEl('option', {value: path, text: path});
+		}
+		noteSelect.addEventListener('change', () => {
+			this.query.notePath = noteSelect.value || undefined;
+			void this.refresh();
+		});
+
+		const dates = filters.createDiv('r2-history-dates');
+		const fromInput = dates.createEl('input', {type: 'date'});
+		setTooltip(fromInput, 'From');
+		const toInput = dates.createEl('input', {type: 'date'});
+		setTooltip(toInput, 'To');
+		// Date inputs are local calendar days; make the range cover the whole of each day
+		fromInput.addEventListener('change', () => {
+			this.query.from = fromInput.value ? moment(fromInput.value).startOf('day').toDate() : undefined;
+			void this.refresh();
+		});
+		toInput.addEventListener('change', () => {
+			this.query.to = toInput.value ? moment(toInput.value).endOf('day').toDate() : undefined;
+			void this.refresh();
+		});
+
+		this.listEl = el.createDiv('nav-files-container');
+	}
+
+	async refresh() {
+		if (!this.listEl) return;
+		this.shown = await this.plugin.records.query(this.query);
+		const list = this.listEl;
+		list.empty();
+
+		if (this.shown.length === 0) {
+			const empty = list.createDiv('r2-empty');
+			setIcon(empty.createSpan('r2-empty-icon'), 'history');
+			empty.createSpan({cls: 'r2-empty-text', text: 'No matching records.'});
+			return;
+		}
+		for (const record of this.shown) this.renderRow(list, record);
+	}
+
+	private renderRow(parent: HTMLElement, record: ImageRecord) {
+		const navFile = parent.createDiv('tree-item nav-file');
+		const row = navFile.createDiv('tree-item-self nav-file-title r2-history-row');
+
+		const badge = row.createDiv(`r2-status-icon r2-history-${record.type}`);
+		if (record.type === 'removal') setIcon(badge, record.action === 'trash' ? 'trash-2' : 'archive');
+		else setIcon(badge, record.type === 'deletion' ? 'cloud-off' : record.type);
+		row.createDiv({cls: 'tree-item-inner nav-file-title-content', text: record.fileName});
+
+		const tools = row.createDiv('r2-tools');
+
+		const note = this.app.vault.getAbstractFileByPath(record.notePath);
+		const openBtn = tools.createDiv({cls: 'clickable-icon' + (note instanceof TFile ? '' : ' is-disabled')});
+		setIcon(openBtn, 'file-text');
+		setTooltip(openBtn, 'Open note');
+		if (note instanceof TFile) {
+			openBtn.addEventListener('click', () => { void this.app.workspace.getLeaf(false).openFile(note); });
+		}
+
+		const url = recordUrl(record);
+		const copyBtn = tools.createDiv({cls: 'clickable-icon' + (url ? '' : ' is-disabled')});
+		setIcon(copyBtn, 'copy');
+		setTooltip(copyBtn, 'Copy URL');
+		if (url) {
+			copyBtn.addEventListener('click', () => {
+				void navigator.clipboard.writeText(url).then(() => new Notice('Images → R2: URL copied.'));
+			});
+		}
+
+		// An archived original lives at its archive path now
+		const localPath = record.type === 'removal' ? record.archivePath : record.localPath;
+		const local = localPath ? this.app.vault.getAbstractFileByPath(localPath) : null;
+		const revealBtn = tools.createDiv({cls: 'clickable-icon' + (local instanceof TFile ? '' : ' is-disabled')});
+		setIcon(revealBtn, 'folder-open');
+		setTooltip(revealBtn, local instanceof TFile ? 'Reveal local file' : 'Local file not in vault');
+		if (local instanceof TFile) {
+			revealBtn.addEventListener('click', () => {
+				const explorer = (this.app as unknown as InternalPlugins).internalPlugins?.getPluginById('file-explorer')?.instance;
+				explorer?.revealInFolder(local);
+			});
+		}
+
+		navFile.createDiv({
+			cls: 'r2-history-meta',
+			text: `${moment(record.at).format('YYYY-MM-DD HH:mm')} · ${record.type === 'upload' && record.skipped ? 'skipped in review' : record.notePath || 'no note'}`,
+		});
+	}
+
+	// Export what the current filters show into a new file at the vault root
+	private async export(format: 'csv' | 'json') {
+		const content = format === 'csv' ? recordsToCsv(this.shown) : JSON.stringify(this.shown, null, '\t');
+		const path = `Images R2 history ${moment().format('YYYYMMDDHHmmss')}.${format}`;
+		try {
+			await this.app.vault.create(path, content);
+			new Notice(`Images → R2: exported ${this.shown.length} record${this.shown.length === 1 ? '' : 's'} to ${path}.`);
+		} catch (err) {
+			new Notice(`Images → R2: export failed: ${(err as Error).message}`);
+		}
+	}
+}
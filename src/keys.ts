@@ -0,0 +1,64 @@
+// Number of hex characters of the SHA-256 digest used in content-hash keys
+const HASH_KEY_LENGTH = 16;
+// Shorter prefixes collide too easily to trust an existing object as the same image
+const MIN_ADDRESS_LENGTH = 8;
+
+export const DEFAULT_KEY_TEMPLATE = '{name}.{ext}';
+export const HASH_KEY_TEMPLATE = `{hash:${HASH_KEY_LENGTH}}.{ext}`;
+
+export interface KeyContext {
+	name: string;      // image basename without extension
+	ext: string;       // image extension, lower-cased
+	hash: string;      // full SHA-256 hex digest of the bytes
+	notePath: string;  // vault path of the note embedding the image ('' if none)
+	date: Date;
+}
+
+export async function sha256Hex(buffer: ArrayBuffer): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', buffer);
+	return Array.from(new Uint8Array(digest))
+		.map(b => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+// An empty template keeps the legacy behaviour: bare file name, or hash + extension
+export function effectiveKeyTemplate(template: string, useHash: boolean): string {
+	if (template.trim()) return template.trim();
+	return useHash ? HASH_KEY_TEMPLATE : DEFAULT_KEY_TEMPLATE;
+}
+
+// Keys that embed enough of the hash are content-addressed: an existing object is the same image
+export function isContentAddressed(template: string): boolean {
+	return [...template.matchAll(/\{hash(?::(\d+))?\}/g)]
+		.some(m => m[1] === undefined || Number(m[1]) >= MIN_ADDRESS_LENGTH);
+}
+
+export function expandKeyTemplate(template: string, ctx: KeyContext): string {
+	const pad = (n: number) => String(n).padStart(2, '0');
+	const slash = ctx.notePath.lastIndexOf('/');
+	const noteFolder = slash >= 0 ? ctx.notePath.slice(0, slash) : '';
+	const noteFile = slash >= 0 ? ctx.notePath.slice(slash + 1) : ctx.notePath;
+	const noteName = noteFile.replace(/\.md$/i, '');
+
+	const key = template.replace(/\{(\w+)(?::(\d+))?\}/g, (token, name: string, len?: string) => {
+		switch (name) {
+			case 'name': return ctx.name;
+			case 'ext': return ctx.ext;
+			case 'hash': return len ? ctx.hash.slice(0, Number(len)) : ctx.hash;
+			case 'noteFolder': return noteFolder;
+			case 'noteName': return noteName;
+			case 'yyyy': return String(ctx.date.getFullYear());
+			case 'mm': return pad(ctx.date.getMonth() + 1);
+			case 'dd': return pad(ctx.date.getDate());
+			default: return token;
+		}
+	});
+
+	// Empty tokens such as {noteFolder} at the vault root must not leave stray slashes
+	return key.replace(/\/{2,}/g, '/').replace(/^\/+|\/+$/g, '');
+}
+
+// Encode each path segment so folder separators survive in public URLs
+export function encodeKey(key: string): string {
+	return key.split('/').map(encodeURIComponent).join('/');
+}
@@ -0,0 +1,284 @@
+import {App, Modal, Notice, Platform, Setting, TFile, moment, requestUrl} from 'obsidian';
+import type ImagesR2Plugin from './main';
+import type {UploadRecord} from './records';
+import {findRemoteEmbeds} from './embeds';
+import {rewriteEmbeds} from './rewrite';
+
+export type LinkStatus = 'ok' | 'not-found' | 'redirect' | 'timeout' | 'error';
+
+export interface LinkHealth {
+	status: LinkStatus;
+	httpStatus?: number;
+	detail?: string;
+}
+
+const TIMEOUT_MS = 10_000;
+const CACHE_MS = 10 * 60_000;
+
+export const LINK_STATUS_LABELS: Record<LinkStatus, string> = {
+	'ok': 'OK',
+	'not-found': '404',
+	'redirect': 'Redirect',
+	'timeout': 'Timeout',
+	'error': 'Error',
+};
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | 'timeout'> {
+	let timer = 0;
+	const timeout = new Promise<'timeout'>(resolve => { timer = window.setTimeout(() => resolve('timeout'), ms); });
+	return Promise.race([promise, timeout]).finally(() => window.clearTimeout(timer));
+}
+
+// requestUrl follows redirects without reporting them. Node's http client on desktop does not
+// follow them, so a HEAD request there reads the 3xx status and its target. Mobile has no such
+// client and judges a redirected image by where it ends up.
+async function findRedirect(url: string): Promise<{status: number; location: string} | null> {
+	if (!Platform.isDesktopApp) return null;
+	/* eslint-disable @typescript-eslint/no-require-imports, import/no-nodejs-modules, no-undef -- desktop only, behind the check above */
+	const {request} = (url.startsWith('https:') ? require('https') : require('http')) as typeof import('https');
+	/* eslint-enable @typescript-eslint/no-require-imports, import/no-nodejs-modules, no-undef */
+	return new Promise(resolve => {
+		const req = request(url, {method: 'HEAD', timeout: TIMEOUT_MS}, response => {
+			response.resume();
+			const {statusCode = 0, headers} = response;
+			const isRedirect = statusCode >= 300 && statusCode < 400 && !!headers.location;
+			resolve(isRedirect ? {status: statusCode, location: new URL(headers.location ?? '', url).href} : null);
+		});
+		req.on('timeout', () => req.destroy());
+		req.on('error', () => resolve(null));
+		req.end();
+	});
+}
+
+async function probe(url: string): Promise<LinkHealth> {
+	try {
+		let response = await withTimeout(requestUrl({url, method: 'HEAD', throw: false}), TIMEOUT_MS);
+		// Some hosts refuse HEAD; ask for the body instead
+		if (response !== 'timeout' && (response.status === 405 || response.status === 403)) {
+			response = await withTimeout(requestUrl({url, method: 'GET', throw: false}), TIMEOUT_MS);
+		}
+		if (response === 'timeout') return {status: 'timeout'};
+		const {status} = response;
+		if (status === 404 || status === 410) return {status: 'not-found', httpStatus: status};
+		if (status < 200 || status >= 300) return {status: 'error', httpStatus: status, detail: `HTTP ${status}`};
+		const redirect = await findRedirect(url);
+		if (redirect) return {status: 'redirect', httpStatus: redirect.status, detail: `Redirects to ${redirect.location}`};
+		return {status: 'ok', httpStatus: status};
+	} catch (err) {
+		return {status: 'error', detail: (err as Error).message};
+	}
+}
+
+// Checks remote URLs with a concurrency limit, caching results for a few minutes
+export class LinkChecker {
+	private concurrency: () => number;
+	private cache = new Map<string, {health: LinkHealth; at: number}>();
+	private inFlight = new Map<string, Promise<LinkHealth>>();
+	private active = 0;
+	private waiting: (() => void)[] = [];
+
+	constructor(concurrency: () => number) {
+		this.concurrency = concurrency;
+	}
+
+	check(url: string, force = false): Promise<LinkHealth> {
+		const cached = this.cache.get(url);
+		if (!force && cached && Date.now() - cached.at < CACHE_MS) return Promise.resolve(cached.health);
+		const pending = this.inFlight.get(url);
+		if (pending) return pending;
+
+		const run = this.acquire().then(async () => {
+			try {
+				const health = await probe(url);
+				this.cache.set(url, {health, at: Date.now()});
+				return health;
+			} finally {
+				this.inFlight.delete(url);
+				this.release();
+			}
+		});
+		this.inFlight.set(url, run);
+		return run;
+	}
+
+	private acquire(): Promise<void> {
+		if (this.active < Math.max(1, this.concurrency())) {
+			this.active++;
+			return Promise.resolve();
+		}
+		return new Promise(resolve => this.waiting.push(() => { this.active++; resolve(); }));
+	}
+
+	private release() {
+		this.active--;
+		this.waiting.shift()?.();
+	}
+}
+
+export interface Reuploadable {
+	url: string;
+	record: UploadRecord;
+	file: TFile;                                   // the surviving local original
+	notes: {note: TFile; fullMatch: string}[];   // embeds that use the broken URL
+}
+
+// A broken link can be fixed if we uploaded it and still have the local original
+export async function findReuploadable(plugin: ImagesR2Plugin, url: string): Promise<{record: UploadRecord; file: TFile} | null> {
+	const record = await plugin.records.findUploadByUrl(url);
+	if (!record?.localPath) return null;
+	const file = plugin.app.vault.getAbstractFileByPath(record.localPath);
+	return file instanceof TFile ? {record, file} : null;
+}
+
+// Upload the local original again and point every embed of the broken URL at the new copy.
+// Notes on different bucket profiles each get a copy in their own bucket.
+export async function reupload(plugin: ImagesR2Plugin, target: Reuploadable): Promise<{success: true} | {success: false; error: string}> {
+	if (!await plugin.ensureUnlocked()) return {success: false, error: 'Secrets are locked'};
+	const byProfile = new Map<string, Reuploadable['notes']>();
+	for (const use of target.notes) {
+		const profile = plugin.profileFor(use.note);
+		const name = profile.success ? profile.name : '';
+		byProfile.set(name, [...byProfile.get(name) ?? [], use]);
+	}
+
+	const errors: string[] = [];
+	for (const [name, uses] of byProfile) {
+		const note = uses[0]?.note ?? null;
+		const storage = plugin.storage(note);
+		const baseUrl = await storage.resolveBaseUrl();
+		if (!baseUrl) {
+			errors.push(storage.missingUrlHint());
+			continue;
+		}
+		const outcome = await plugin.transfers.add({
+			id: `reupload:${name}:${target.url}`,
+			run: async () => {
+				const result = await plugin.uploadImageFile(target.file, baseUrl, note);
+				if (!result.success) return result;
+				// The copy is in the bucket now, so a failed rewrite must not upload it again
+				const failed: string[] = [];
+				for (const {note, fullMatch} of uses) {
+					try {
+						await rewriteEmbeds(plugin.app, note, [{fullMatch, replacement: fullMatch.split(target.url).join(result.publicUrl)}]);
+					} catch {
+						failed.push(note.path);
+						continue;
+					}
+					await plugin.recordUpload(target.file, result, note);
+				}
+				return failed.length ? {success: false, error: `Uploaded, but could not update ${failed.join(', ')}`} : {success: true};
+			},
+		});
+		if (!outcome.success) errors.push(outcome.error);
+	}
+	return errors.length ? {success: false, error: errors.join('; ')} : {success: true};
+}
+
+class ReuploadModal extends Modal {
+	private targets: Reuploadable[];
+	private onConfirm: () => void;
+
+	constructor(app: App, targets: Reuploadable[], onConfirm: () => void) {
+		super(app);
+		this.targets = targets;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		this.setTitle('Re-upload broken images');
+		contentEl.createEl('p', {text: `${this.targets.length} broken link${this.targets.length === 1 ? '' : 's'} can be fixed from local originals:`});
+		const list = contentEl.createEl('ul');
+		for (const t of this.targets) list.createEl('li', {text: t.file.path});
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Not now')
+				.onClick(() => this.close()))
+			.addButton(btn => btn
+				.setButtonText('Re-upload all')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onConfirm();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+interface CheckedLink {
+	note: TFile;
+	url: string;
+	health: LinkHealth;
+}
+
+function reportNote(links: CheckedLink[], notes: number, scope: string): string {
+	const broken = links.filter(l => l.health.status !== 'ok');
+	const lines = [
+		'# Image link report',
+		'',
+		`Checked ${links.length} image link${links.length === 1 ? '' : 's'} in ${notes} note${notes === 1 ? '' : 's'} (${scope}) on ${moment().format('YYYY-MM-DD HH:mm')}.`,
+		`${links.length - broken.length} OK, ${broken.length} with problems.`,
+		'',
+	];
+	if (broken.length) {
+		lines.push('| Note | Image | Status |', '|---|---|---|');
+		for (const l of broken) {
+			const status = l.health.detail ?? LINK_STATUS_LABELS[l.health.status];
+			lines.push(`| [[${l.note.path}]] | <${l.url}> | ${status.replace(/\|/g, '\\|')} |`);
+		}
+	}
+	return lines.join('\n') + '\n';
+}
+
+// Check every remote image in the notes, write a report note and offer to fix broken uploads
+export async function checkNotes(plugin: ImagesR2Plugin, notes: TFile[], scope: string) {
+	const {app} = plugin;
+	const notice = new Notice('Images → R2: checking image links…', 0);
+	const links: CheckedLink[] = [];
+	const embedsByUrl = new Map<string, {note: TFile; fullMatch: string}[]>();
+	for (const note of notes) {
+		const content = await app.vault.cachedRead(note);
+		const seenMatches = new Set<string>();
+		const seenUrls = new Set<string>();
+		for (const embed of findRemoteEmbeds(content)) {
+			if (seenMatches.has(embed.fullMatch)) continue;
+			seenMatches.add(embed.fullMatch);
+			const uses = embedsByUrl.get(embed.url) ?? [];
+			uses.push({note, fullMatch: embed.fullMatch});
+			embedsByUrl.set(embed.url, uses);
+			// One report row per URL per note
+			if (seenUrls.has(embed.url)) continue;
+			seenUrls.add(embed.url);
+			links.push({note, url: embed.url, health: {status: 'ok'}});
+		}
+	}
+	await Promise.all(links.map(async (link) => { link.health = await plugin.linkChecker.check(link.url); }));
+	notice.hide();
+
+	const withLinks = new Set(links.map(l => l.note)).size;
+	const path = `Images R2 link report ${moment().format('YYYYMMDDHHmmss')}.md`;
+	const report = await app.vault.create(path, reportNote(links, withLinks, scope));
+	await app.workspace.getLeaf('tab').openFile(report);
+
+	const targets: Reuploadable[] = [];
+	for (const url of new Set(links.filter(l => l.health.status === 'not-found').map(l => l.url))) {
+		const found = await findReuploadable(plugin, url);
+		if (found) targets.push({url, ...found, notes: embedsByUrl.get(url) ?? []});
+	}
+	if (targets.length === 0) return;
+	new ReuploadModal(app, targets, () => {
+		void (async () => {
+			const errors: string[] = [];
+			await Promise.all(targets.map(async (t) => {
+				const result = await reupload(plugin, t);
+				if (!result.success) errors.push(`${t.file.name}: ${result.error}`);
+			}));
+			const fixed = targets.length - errors.length;
+			new Notice(`Images → R2: re-uploaded ${fixed} image${fixed === 1 ? '' : 's'}.` +
+				(errors.length ? ` ${errors.length} failed: ${errors.join('; ')}` : ''));
+		})();
+	}).open();
+}
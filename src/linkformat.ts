@@ -0,0 +1,91 @@
+import type {LocalEmbed} from './embeds';
+
+export type LinkFormat = 'markdown' | 'html' | 'custom';
+export type UploadLinkFormat = 'auto' | LinkFormat;
+export type DownloadLinkFormat = 'wiki' | 'markdown' | 'custom';
+
+export const LINK_FORMATS: LinkFormat[] = ['markdown', 'html', 'custom'];
+
+// No wiki form: Obsidian does not render ![[https://…]]
+export const UPLOAD_TEMPLATES: Record<Exclude<LinkFormat, 'custom'>, string> = {
+	markdown: '![{alt}{?|{size}}]({url}{? "{caption}"})',
+	html: '<img src="{url}" alt="{alt}"{? width="{width}"}{? title="{caption}"} loading="lazy">',
+};
+
+export const DOWNLOAD_TEMPLATES: Record<Exclude<DownloadLinkFormat, 'custom'>, string> = {
+	wiki: '![[{link}{?|{alt}}{?|{size}}]]',
+	markdown: '![{alt}{?|{size}}]({url})',
+};
+
+export interface LinkValues {
+	url: string;      // public URL, or for downloads the note-relative path
+	link: string;     // Obsidian link text for a downloaded file (the URL for uploads)
+	name: string;     // image file name
+	alt: string;      // alt text or alias ('' if none)
+	width: string;    // display width ('' if none)
+	size: string;     // width or widthxheight as written in the note
+	caption: string;  // markdown title or HTML title attribute
+}
+
+export const LINK_TOKENS = ['url', 'link', 'name', 'alt', 'width', 'size', 'caption'] as const;
+
+function escapeAttr(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+// A ] in alt text or a " in a title would end it early
+function escapeMarkdown(value: string): string {
+	return value.replace(/[\\[\]"]/g, '\\$&');
+}
+
+// {token} inserts a value; {?…} keeps its text only when every token inside it has a value.
+// Values are escaped for attributes in an HTML tag and for link text in a markdown image;
+// wiki embeds take them as they are.
+export function expandLinkTemplate(template: string, values: LinkValues): string {
+	const start = template.trimStart();
+	const escape = start.startsWith('<') ? escapeAttr : start.startsWith('![[') ? (v: string) => v : escapeMarkdown;
+	const value = (name: string) => escape((LINK_TOKENS as readonly string[]).includes(name) ? values[name as keyof LinkValues] : '');
+	const tokens = (text: string) => text.replace(/\{(\w+)\}/g, (_, name: string) => value(name));
+	// One pass, so braces inside values are never expanded
+	return template.replace(/\{\?((?:[^{}]|\{\w+\})*)\}|\{(\w+)\}/g, (_, inner?: string, name?: string) => {
+		if (name !== undefined) return value(name);
+		const names = [...(inner ?? '').matchAll(/\{(\w+)\}/g)].map(m => m[1] ?? '');
+		return names.every(n => value(n)) ? tokens(inner ?? '') : '';
+	});
+}
+
+// Path from a note to a vault file, encoded for a markdown link
+export function relativeLinkPath(notePath: string, filePath: string): string {
+	const from = notePath.split('/').slice(0, -1);
+	const to = filePath.split('/');
+	let common = 0;
+	while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+	const parts = [...from.slice(common).map(() => '..'), ...to.slice(common)];
+	return parts.map(encodeURIComponent).join('/');
+}
+
+// The same <img> tag pointing somewhere else, every other attribute kept
+export function withImageSrc(tag: string, src: string): string {
+	return tag.replace(/(\ssrc\s*=\s*)(?:"[^"]*"|'[^']*'|[^\s>]+)/i, (_, attr: string) => `${attr}"${escapeAttr(src)}"`);
+}
+
+// Link that replaces a local embed once the image is uploaded, keeping alt text, size and caption.
+// In auto mode an <img> only has its src swapped and everything else becomes a markdown image.
+export function formatUploadedLink(embed: LocalEmbed, url: string, fallbackAlt: string, format: UploadLinkFormat, customTemplate: string): string {
+	if (format === 'auto' && embed.kind === 'html') return withImageSrc(embed.fullMatch, url);
+	const template = format === 'custom' && customTemplate ? customTemplate : UPLOAD_TEMPLATES[format === 'auto' || format === 'custom' ? 'markdown' : format];
+	return expandLinkTemplate(template, {
+		url,
+		link: url,
+		name: fallbackAlt,
+		alt: embed.alt || fallbackAlt,
+		width: embed.size.split('x')[0] ?? '',
+		size: embed.size,
+		caption: embed.caption,
+	});
+}
+
+export function formatDownloadedLink(values: LinkValues, format: DownloadLinkFormat, customTemplate: string): string {
+	const template = format === 'custom' && customTemplate ? customTemplate : DOWNLOAD_TEMPLATES[format === 'custom' ? 'wiki' : format];
+	return expandLinkTemplate(template, values);
+}
@@ -1,7 +1,23 @@
-import {MarkdownView, Menu, Plugin, TAbstractFile, TFile, requestUrl} from 'obsidian';
+import {MarkdownView, Menu, Notice, Plugin, TAbstractFile, TFile, TFolder} from 'obsidian';
 import {DEFAULT_SETTINGS, ImagesR2Settings, ImagesR2SettingTab} from './settings';
 import {R2UploaderView, VIEW_TYPE_R2} from './view';
+import {R2HistoryView, VIEW_TYPE_R2_HISTORY} from './history';
+import {R2BrowserView, VIEW_TYPE_R2_BROWSER} from './browser';
 import {RecordsManager} from './records';
+import {StorageProvider, createStorageProvider} from './storage';
+import {uploadNotes} from './bulk';
+import {revertNotes} from './revert';
+import {findAndDeleteOrphans} from './orphans';
+import {LinkChecker, checkNotes} from './linkcheck';
+import {handleImageTransfer} from './paste';
+import {TransferQueue} from './queue';
+import {optimizeImage} from './optimize';
+import {ProfileResult, resolveProfile} from './profiles';
+import {ENABLED_KEY, NoteOptions, noteOptions} from './frontmatter';
+import {LocalEmbed, RemoteEmbed, splitAltAndSize} from './embeds';
+import {formatDownloadedLink, formatUploadedLink, relativeLinkPath, withImageSrc} from './linkformat';
+import {PassphraseModal, SecretVault, WrongPassphraseError} from './secrets';
+import {effectiveKeyTemplate, encodeKey, expandKeyTemplate, isContentAddressed, sha256Hex} from './keys';
 
 const MIME_TYPES: Record<string, string> = {
 	'png': 'image/png',
@@ -16,15 +32,39 @@ const MIME_TYPES: Record<string, string> = {
 	'tif': 'image/tiff',
 };
 
+export type UploadSuccess = {
+	success: true;
+	publicUrl: string;
+	key: string;
+	hash: string;
+	deduplicated: boolean;
+	ext: string;            // extension of what was uploaded (changes when converted)
+	originalSize: number;   // bytes before optimisation
+	finalSize: number;      // bytes uploaded
+};
+
+export type UploadResult = UploadSuccess | {success: false; error: string; retryable?: boolean};
+
 export default class ImagesR2Plugin extends Plugin {
 	settings: ImagesR2Settings;
 	records: RecordsManager;
+	transfers: TransferQueue;
+	linkChecker: LinkChecker;
+	secrets = new SecretVault();
+	private unlocking: Promise<boolean> | null = null;
 
 	async onload() {
 		await this.loadSettings();
 		this.records = new RecordsManager(this.app);
+		this.transfers = new TransferQueue(() => ({
+			concurrency: this.settings.concurrency,
+			maxRetries: this.settings.maxRetries,
+		}));
+		this.linkChecker = new LinkChecker(() => this.settings.concurrency);
 
 		this.registerView(VIEW_TYPE_R2, (leaf) => new R2UploaderView(leaf, this));
+		this.registerView(VIEW_TYPE_R2_HISTORY, (leaf) => new R2HistoryView(leaf, this));
+		this.registerView(VIEW_TYPE_R2_BROWSER, (leaf) => new R2BrowserView(leaf, this));
 
 		this.addRibbonIcon('aperture', 'Images → R2', () => this.activateView());
 
@@ -34,6 +74,12 @@ export default class ImagesR2Plugin extends Plugin {
 		// File menu (··· on note tab / file explorer)
 		this.registerEvent(
 			this.app.workspace.on('file-menu', (menu: Menu, file: TAbstractFile) => {
+				if (file instanceof TFolder) {
+					menu.addItem((item) => {
+						item.setTitle('Upload images in folder to R2').setIcon('upload').onClick(() => { void this.uploadAllInFolder(file); });
+					});
+					return;
+				}
 				if (!(file instanceof TFile) || file.extension !== 'md') return;
 				menu.addItem((item) => {
 					item.setTitle('Upload images to R2').setIcon('upload').onClick(() => this.activateView());
@@ -50,17 +96,121 @@ export default class ImagesR2Plugin extends Plugin {
 			})
 		);
 
+		// Auto-upload pasted and dropped images (opt-in)
+		this.registerEvent(
+			this.app.workspace.on('editor-paste', (evt, editor, info) => {
+				handleImageTransfer(this, evt, evt.clipboardData, editor, info);
+			})
+		);
+		this.registerEvent(
+			this.app.workspace.on('editor-drop', (evt, editor, info) => {
+				handleImageTransfer(this, evt, evt.dataTransfer, editor, info);
+			})
+		);
+
 		this.addCommand({
 			id: 'open-r2-uploader',
 			name: 'Open R2 uploader panel',
 			callback: () => this.activateView(),
 		});
 
+		this.addCommand({
+			id: 'open-r2-browser',
+			name: 'Open bucket browser',
+			callback: () => { void this.activateBrowserView(); },
+		});
+
+		this.addCommand({
+			id: 'check-links-in-current-note',
+			name: 'Check image links in current note',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+				if (!checking) void checkNotes(this, [file], file.name);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'check-links-in-vault',
+			name: 'Check image links in vault',
+			callback: () => { void checkNotes(this, this.app.vault.getMarkdownFiles(), 'the vault'); },
+		});
+
+		this.addCommand({
+			id: 'find-orphans',
+			name: 'Find orphaned objects in bucket',
+			callback: () => { void findAndDeleteOrphans(this); },
+		});
+
+		this.addCommand({
+			id: 'open-r2-history',
+			name: 'Open upload history',
+			callback: () => { void this.activateHistoryView(); },
+		});
+
+		this.addCommand({
+			id: 'upload-all-in-current-note',
+			name: 'Upload all local images in current note',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+				if (!checking) void this.uploadAllInCurrentFile();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'upload-all-in-vault',
+			name: 'Upload all local images in vault',
+			callback: () => { void uploadNotes(this, this.app.vault.getMarkdownFiles(), 'the vault'); },
+		});
+
+		this.addCommand({
+			id: 'revert-current-note-to-local',
+			name: 'Revert uploaded images in current note to local',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+				if (!checking) void revertNotes(this, [file], file.name);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'revert-vault-to-local',
+			name: 'Revert uploaded images in vault to local',
+			callback: () => { void revertNotes(this, this.app.vault.getMarkdownFiles(), 'the vault'); },
+		});
+
+		this.addCommand({
+			id: 'unlock-secrets',
+			name: 'Unlock encrypted secrets',
+			checkCallback: (checking) => {
+				if (!this.secrets.isLocked(this.settings)) return false;
+				if (!checking) void this.ensureUnlocked();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'lock-secrets',
+			name: 'Lock encrypted secrets',
+			checkCallback: (checking) => {
+				if (!this.secrets.isEncrypted(this.settings) || this.secrets.isLocked(this.settings)) return false;
+				if (!checking) {
+					this.secrets.lock(this.settings);
+					new Notice('Images → R2: secrets locked.');
+				}
+				return true;
+			},
+		});
+
 		this.addSettingTab(new ImagesR2SettingTab(this.app, this));
 	}
 
 	onunload() {
-		this.app.workspace.detachLeavesOfType(VIEW_TYPE_R2);
+		this.transfers.cancelAll();
 	}
 
 	async loadSettings() {
@@ -68,43 +218,124 @@ export default class ImagesR2Plugin extends Plugin {
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		await this.saveData(await this.secrets.seal(this.settings));
+	}
+
+	// Asks for the passphrase once per session when secrets are encrypted; false if the user declined
+	ensureUnlocked(): Promise<boolean> {
+		if (!this.secrets.isLocked(this.settings)) return Promise.resolve(true);
+		// Parallel uploads share one prompt
+		this.unlocking ??= new PassphraseModal(this.app, {
+			title: 'Unlock Images → R2',
+			description: 'Your API secrets are encrypted. Enter the passphrase to unlock uploads for this session.',
+			confirm: false,
+			onSubmit: async (passphrase) => {
+				try {
+					await this.secrets.unlock(this.settings, passphrase);
+					return null;
+				} catch (err) {
+					return err instanceof WrongPassphraseError ? 'Wrong passphrase.' : (err as Error).message;
+				}
+			},
+		}).ask().finally(() => { this.unlocking = null; });
+		return this.unlocking;
 	}
 
 	async activateView() {
 		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_R2);
 		if (existing.length && existing[0]) {
-			this.app.workspace.revealLeaf(existing[0]);
+			await this.app.workspace.revealLeaf(existing[0]);
 			return;
 		}
 		const leaf = this.app.workspace.getRightLeaf(false);
 		if (leaf) {
 			await leaf.setViewState({type: VIEW_TYPE_R2, active: true});
-			this.app.workspace.revealLeaf(leaf);
+			await this.app.workspace.revealLeaf(leaf);
 		}
 	}
 
-	private async fetchManagedDomain(accountId: string, r2Token: string, bucketName: string): Promise<string | null> {
-		try {
-			const response = await requestUrl({
-				url: `https://api.cloudflare.com/client/v4/accounts/${accountId}/r2/buckets/${bucketName}/domains/managed`,
-				method: 'GET',
-				headers: {'Authorization': `Bearer ${r2Token}`},
-				throw: false,
-			});
-			if (response.status !== 200) return null;
-			const domain = response.json?.result?.domain as string | undefined;
-			return domain ? `https://${domain}` : null;
-		} catch {
-			return null;
+	// The browser sits in the right sidebar next to the uploader panel
+	async activateBrowserView() {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_R2_BROWSER);
+		if (existing.length && existing[0]) {
+			await this.app.workspace.revealLeaf(existing[0]);
+			return;
+		}
+		const leaf = this.app.workspace.getRightLeaf(false);
+		if (leaf) {
+			await leaf.setViewState({type: VIEW_TYPE_R2_BROWSER, active: true});
+			await this.app.workspace.revealLeaf(leaf);
 		}
 	}
 
-	async resolveBaseUrl(): Promise<string | null> {
-		const {accountId, r2Token, bucketName, customDomain} = this.settings;
-		if (customDomain) return customDomain;
-		if (!accountId || !r2Token || !bucketName) return null;
-		return this.fetchManagedDomain(accountId, r2Token, bucketName);
+	// History opens as a tab in the main area; it needs more room than the sidebar
+	async activateHistoryView() {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_R2_HISTORY);
+		if (existing.length && existing[0]) {
+			await this.app.workspace.revealLeaf(existing[0]);
+			return;
+		}
+		const leaf = this.app.workspace.getLeaf('tab');
+		await leaf.setViewState({type: VIEW_TYPE_R2_HISTORY, active: true});
+		await this.app.workspace.revealLeaf(leaf);
+	}
+
+	// Frontmatter overrides of a note: opt-out, key prefix and link format
+	noteOptions(note: TFile | null): NoteOptions {
+		return noteOptions(this.app, note);
+	}
+
+	// Link written in place of a local embed once uploaded: the note's format, else the one in settings
+	formatUploadedLink(embed: LocalEmbed, url: string, fallbackAlt: string, note: TFile | null): string {
+		const format = this.noteOptions(note).linkFormat ?? this.settings.uploadLinkFormat;
+		return formatUploadedLink(embed, url, fallbackAlt, format, this.settings.uploadLinkTemplate);
+	}
+
+	// Link written in place of a remote image once it is saved to (or restored in) the vault.
+	// An <img> tag stays a tag with its src pointing at the file.
+	formatDownloadedLink(file: TFile, note: TFile, embed: RemoteEmbed): string {
+		if (embed.kind === 'html') return withImageSrc(embed.fullMatch, relativeLinkPath(note.path, file.path));
+		const {alt, size} = splitAltAndSize(embed.alt);
+		const format = this.settings.downloadLinkFormat;
+		return formatDownloadedLink({
+			url: relativeLinkPath(note.path, file.path),
+			link: this.app.metadataCache.fileToLinktext(file, note.path),
+			name: file.name,
+			// A wiki alias that only repeats the file name is noise
+			alt: format === 'wiki' && alt === file.name ? '' : alt,
+			width: size.split('x')[0] ?? '',
+			size,
+			caption: '',
+		}, format, this.settings.downloadLinkTemplate);
+	}
+
+	// Bucket profile a note uploads to: frontmatter, then folder rules, then the default
+	profileFor(note: TFile | null): ProfileResult {
+		return resolveProfile(this.app, this.settings, note);
+	}
+
+	// Storage backend selected in settings; rebuilt on each call so it sees settings changes.
+	// With a note, the note's bucket profile applies.
+	storage(note: TFile | null = null): StorageProvider {
+		const profile = this.profileFor(note);
+		return createStorageProvider(this.app, profile.success ? profile.settings : this.settings);
+	}
+
+	// Public base URL for uploads from a note, or null after telling the user why there is none
+	async uploadBaseUrl(note: TFile | null): Promise<string | null> {
+		if (!await this.ensureUnlocked()) {
+			new Notice('Images → R2: uploads are blocked until the secrets are unlocked.');
+			return null;
+		}
+		const profile = this.profileFor(note);
+		if (!profile.success) {
+			new Notice(`Images → R2: ${profile.error}.`);
+			return null;
+		}
+		const storage = createStorageProvider(this.app, profile.settings);
+		const baseUrl = await storage.resolveBaseUrl();
+		if (!baseUrl) new Notice(`Images → R2: ${storage.missingUrlHint()}`);
+		return baseUrl;
 	}
 
 	resolveImageFile(imagePath: string, activeFile: TFile): TFile | null {
@@ -114,58 +345,96 @@ export default class ImagesR2Plugin extends Plugin {
 		return this.app.vault.getFiles().find((f: TFile) => f.name === fileName) ?? null;
 	}
 
-	async uploadImageFile(imageFile: TFile, baseUrl: string): Promise<{success: true; publicUrl: string} | {success: false; error: string}> {
-		const {accountId, r2Token, bucketName} = this.settings;
-		if (!accountId || !r2Token || !bucketName) {
+	// Object key for an image, expanded from the key template in settings
+	objectKeyFor(name: string, ext: string, hash: string, note: TFile | null): string {
+		const template = effectiveKeyTemplate(this.settings.keyTemplate, this.settings.hashKeys);
+		const {prefix} = this.noteOptions(note);
+		const key = expandKeyTemplate(template, {
+			name,
+			ext: ext.toLowerCase(),
+			hash,
+			notePath: note?.path ?? '',
+			date: new Date(),
+		});
+		return prefix ? `${prefix}/${key}` : key;
+	}
+
+	async uploadImageFile(imageFile: TFile, baseUrl: string, note: TFile | null = null): Promise<UploadResult> {
+		let fileBuffer: ArrayBuffer;
+		try {
+			fileBuffer = await this.app.vault.readBinary(imageFile);
+		} catch (err) {
+			return {success: false, error: (err as Error).message};
+		}
+		return this.uploadImageData(fileBuffer, imageFile.basename, imageFile.extension, baseUrl, note);
+	}
+
+	// Upload raw image bytes (a vault file or a pasted/dropped blob) under a key from the template
+	async uploadImageData(data: ArrayBuffer, name: string, ext: string, baseUrl: string, note: TFile | null = null): Promise<UploadResult> {
+		const {keyTemplate, hashKeys} = this.settings;
+		// Last line of defence for drafts that must never leave the vault
+		if (!this.noteOptions(note).enabled) {
+			return {success: false, error: `Uploads are turned off for this note (${ENABLED_KEY}: false)`};
+		}
+		if (this.secrets.isLocked(this.settings)) return {success: false, error: 'Secrets are locked'};
+		const profile = this.profileFor(note);
+		if (!profile.success) return profile;
+		const storage = createStorageProvider(this.app, profile.settings);
+		if (!storage.isConfigured()) {
 			return {success: false, error: 'Missing configuration'};
 		}
 
 		try {
-			const fileBuffer = await this.app.vault.readBinary(imageFile);
-			const mimeType = MIME_TYPES[imageFile.extension.toLowerCase()] ?? 'application/octet-stream';
-			const fileName = imageFile.name;
-
-			let response;
-			try {
-				response = await requestUrl({
-					url: `https://api.cloudflare.com/client/v4/accounts/${accountId}/r2/buckets/${bucketName}/objects/${encodeURIComponent(fileName)}`,
-					method: 'PUT',
-					headers: {
-						'Authorization': `Bearer ${r2Token}`,
-						'Content-Type': mimeType,
-					},
-					body: fileBuffer,
-					throw: false,
-				});
-			} catch (networkErr) {
-				return {success: false, error: (networkErr as Error).message};
-			}
+			const optimized = await optimizeImage(data, ext, this.settings);
+			const sizes = {ext: optimized.ext, originalSize: data.byteLength, finalSize: optimized.data.byteLength};
+			const mimeType = MIME_TYPES[optimized.ext.toLowerCase()] ?? 'application/octet-stream';
+			const hash = await sha256Hex(optimized.data);
+			const key = this.objectKeyFor(name, optimized.ext, hash, note);
+			const publicUrl = `${baseUrl}/${encodeKey(key)}`;
 
-			if (response.status !== 200) {
-				let errMsg = `HTTP ${response.status}`;
-				try { errMsg = response.json?.errors?.[0]?.message ?? errMsg; } catch { /* not JSON */ }
-				return {success: false, error: errMsg};
+			// Same bytes → same key, so an existing object is already the right one
+			if (isContentAddressed(effectiveKeyTemplate(keyTemplate, hashKeys)) && await storage.exists(key, publicUrl)) {
+				return {success: true, publicUrl, key, hash, deduplicated: true, ...sizes};
 			}
 
-			let data;
-			try { data = response.json; } catch {
-				return {success: false, error: 'Invalid response'};
-			}
-
-			if (!data?.success) {
-				return {success: false, error: data?.errors?.[0]?.message ?? 'Unknown error'};
-			}
+			const put = await storage.put(key, optimized.data, mimeType);
+			if (!put.success) return put;
 
-			return {success: true, publicUrl: `${baseUrl}/${encodeURIComponent(fileName)}`};
+			return {success: true, publicUrl, key, hash, deduplicated: false, ...sizes};
 		} catch (err) {
 			return {success: false, error: (err as Error).message};
 		}
 	}
 
-	// Keep for the command palette upload-all shortcut
+	// image.path is '' for pasted or dropped images that were never saved to the vault
+	// A skipped upload was made from the note but left out of it in review, so it records no note
+	async recordUpload(image: {name: string; path: string}, result: UploadSuccess, note: TFile, skipped = false) {
+		const profile = this.profileFor(note);
+		const {customDomain} = profile.success ? profile.settings : this.settings;
+		await this.records.addUpload({
+			fileName: image.name,
+			localPath: image.path,
+			publicUrl: result.publicUrl,
+			customUrl: customDomain ? `${customDomain}/${encodeKey(result.key)}` : '',
+			notePath: skipped ? '' : note.path,
+			noteFileName: skipped ? '' : note.name,
+			hash: result.hash,
+			originalSize: result.originalSize,
+			finalSize: result.finalSize,
+			profile: profile.success ? profile.name : '',
+			...(skipped ? {skipped} : {}),
+		});
+	}
+
 	async uploadAllInCurrentFile() {
 		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
 		if (!markdownView?.file) return;
-		await this.activateView();
+		await uploadNotes(this, [markdownView.file], markdownView.file.name);
+	}
+
+	async uploadAllInFolder(folder: TFolder) {
+		const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+		const notes = this.app.vault.getMarkdownFiles().filter(f => f.path.startsWith(prefix));
+		await uploadNotes(this, notes, folder.isRoot() ? 'the vault' : folder.path);
 	}
 }
@@ -0,0 +1,69 @@
+export interface OptimizeOptions {
+	maxImageDimension: number;   // longest side in px, 0 = no limit
+	imageQuality: number;        // 1–100, for JPEG and WebP output
+	convertPngToWebp: boolean;
+	stripMetadata: boolean;      // EXIF/GPS; re-encoding through a canvas drops it
+}
+
+export interface OptimizedImage {
+	data: ArrayBuffer;
+	ext: string;
+}
+
+// Formats a canvas can decode and re-encode; SVG, GIF (animation) and the rest pass through
+const ENCODABLE: Record<string, string> = {
+	'png': 'image/png',
+	'jpg': 'image/jpeg',
+	'jpeg': 'image/jpeg',
+	'webp': 'image/webp',
+};
+
+const EXTENSION_FOR: Record<string, string> = {
+	'image/png': 'png',
+	'image/jpeg': 'jpg',
+	'image/webp': 'webp',
+};
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+	return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
+
+// Resize, re-encode and strip metadata before upload. Returns the input untouched
+// when no option applies, the format is not one a canvas can write, or a conversion
+// without a resize would not make the file any smaller. Stripped metadata always wins
+// over size, so the original bytes never go out while that option is on.
+export async function optimizeImage(data: ArrayBuffer, ext: string, options: OptimizeOptions): Promise<OptimizedImage> {
+	const sourceType = ENCODABLE[ext.toLowerCase()];
+	if (!sourceType) return {data, ext};
+
+	const convert = options.convertPngToWebp && sourceType === 'image/png';
+	const maxSide = options.maxImageDimension;
+	if (!convert && !maxSide && !options.stripMetadata) return {data, ext};
+
+	// from-image applies the EXIF orientation before the metadata is dropped
+	const bitmap = await createImageBitmap(new Blob([data], {type: sourceType}), {imageOrientation: 'from-image'});
+	const scale = maxSide ? Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height)) : 1;
+	if (!convert && scale === 1 && !options.stripMetadata) {
+		bitmap.close();
+		return {data, ext};
+	}
+
+	const canvas = document.createElement('canvas');
+	canvas.width = Math.round(bitmap.width * scale);
+	canvas.height = Math.round(bitmap.height * scale);
+	const ctx = canvas.getContext('2d');
+	if (!ctx) {
+		bitmap.close();
+		return {data, ext};
+	}
+	ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+	bitmap.close();
+
+	const targetType = convert ? 'image/webp' : sourceType;
+	const blob = await canvasToBlob(canvas, targetType, Math.min(100, Math.max(1, options.imageQuality)) / 100);
+	// toBlob silently falls back to PNG for formats the platform cannot encode
+	if (!blob || blob.type !== targetType) return {data, ext};
+	if (!options.stripMetadata && scale === 1 && blob.size >= data.byteLength) return {data, ext};
+
+	return {data: await blob.arrayBuffer(), ext: convert ? (EXTENSION_FOR[targetType] ?? ext) : ext};
+}
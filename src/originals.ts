@@ -0,0 +1,140 @@
+import {App, Modal, Notice, Setting, TFile, normalizePath} from 'obsidian';
+import type ImagesR2Plugin from './main';
+import {findLocalEmbeds} from './embeds';
+import {ensureFolder, uniquePath} from './files';
+import {findEditorForFile} from './rewrite';
+
+export interface UploadedOriginal {
+	file: TFile;
+	notes: TFile[];   // notes whose embeds of the file were rewritten to the remote URL
+}
+
+interface Removal {
+	file: TFile;
+	stillUsedBy: string[];   // paths of notes that still link to the file
+}
+
+// Notes that still link to the file. The metadata cache lags behind a rewrite we just
+// made, so for those notes the embeds are re-checked against their current text.
+async function stillReferencing(plugin: ImagesR2Plugin, original: UploadedOriginal): Promise<string[]> {
+	const {app} = plugin;
+	const rewritten = new Map(original.notes.map(n => [n.path, n]));
+	const using: string[] = [];
+	for (const [source, links] of Object.entries(app.metadataCache.resolvedLinks)) {
+		if (!links[original.file.path]) continue;
+		const note = rewritten.get(source);
+		if (!note || await linksTo(plugin, note, original.file)) using.push(source);
+	}
+	return using;
+}
+
+async function linksTo(plugin: ImagesR2Plugin, note: TFile, file: TFile): Promise<boolean> {
+	const {app} = plugin;
+	// Plain [[links]] are untouched by an upload, so the cache is still right about them
+	const links = app.metadataCache.getFileCache(note)?.links ?? [];
+	if (links.some(l => app.metadataCache.getFirstLinkpathDest(l.link.split('#')[0] ?? '', note.path) === file)) return true;
+
+	const content = findEditorForFile(app, note)?.editor.getValue() ?? await app.vault.cachedRead(note);
+	return findLocalEmbeds(content).some(e => plugin.resolveImageFile(e.imagePath, note) === file);
+}
+
+class RemoveOriginalsModal extends Modal {
+	private removals: Removal[];
+	private action: 'trash' | 'archive';
+	private onConfirm: () => void;
+
+	constructor(app: App, removals: Removal[], action: 'trash' | 'archive', onConfirm: () => void) {
+		super(app);
+		this.removals = removals;
+		this.action = action;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		const removable = this.removals.filter(r => r.stillUsedBy.length === 0);
+		const kept = this.removals.filter(r => r.stillUsedBy.length > 0);
+		this.setTitle(this.action === 'trash' ? 'Move uploaded originals to trash' : 'Archive uploaded originals');
+
+		if (removable.length) {
+			contentEl.createEl('p', {text: `These ${removable.length === 1 ? 'image is' : `${removable.length} images are`} no longer embedded by any note:`});
+			const list = contentEl.createEl('ul');
+			for (const r of removable) list.createEl('li', {text: r.file.path});
+		}
+		if (kept.length) {
+			contentEl.createEl('p', {text: 'Kept, because other notes still link to them:'});
+			const list = contentEl.createEl('ul');
+			for (const r of kept) list.createEl('li', {text: `${r.file.path} (${r.stillUsedBy.join(', ')})`});
+		}
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Keep all')
+				.onClick(() => this.close()))
+			.addButton(btn => btn
+				.setButtonText(this.action === 'trash' ? 'Move to trash' : 'Archive')
+				.setCta()
+				.setDisabled(removable.length === 0)
+				.onClick(() => {
+					this.close();
+					this.onConfirm();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+async function removeOriginal(plugin: ImagesR2Plugin, file: TFile, action: 'trash' | 'archive') {
+	const {app} = plugin;
+	const localPath = file.path;
+	let archivePath = '';
+	if (action === 'trash') {
+		// Follows the user's "deleted files" preference, so the original can usually be recovered
+		await app.fileManager.trashFile(file);
+	} else {
+		const folder = normalizePath(plugin.settings.archiveFolder || 'Uploaded originals');
+		await ensureFolder(app, folder);
+		archivePath = uniquePath(app, `${folder}/${file.name}`);
+		await app.fileManager.renameFile(file, archivePath);
+	}
+	await plugin.records.addRemoval({fileName: file.name, localPath, action, archivePath});
+}
+
+// Offer to trash or archive uploaded originals that no note embeds any more
+export async function removeOriginals(plugin: ImagesR2Plugin, uploaded: UploadedOriginal[]) {
+	const action = plugin.settings.originalsAfterUpload;
+	if (action === 'keep' || uploaded.length === 0) return;
+
+	const byPath = new Map<string, UploadedOriginal>();
+	for (const original of uploaded) {
+		const existing = byPath.get(original.file.path);
+		if (existing) existing.notes.push(...original.notes);
+		else byPath.set(original.file.path, {file: original.file, notes: [...original.notes]});
+	}
+
+	const removals: Removal[] = [];
+	for (const original of byPath.values()) {
+		removals.push({file: original.file, stillUsedBy: await stillReferencing(plugin, original)});
+	}
+	// Nothing to confirm when every original is still linked from somewhere
+	if (removals.every(r => r.stillUsedBy.length > 0)) return;
+
+	new RemoveOriginalsModal(plugin.app, removals, action, () => {
+		void (async () => {
+			let removed = 0;
+			const errors: string[] = [];
+			for (const {file} of removals.filter(r => r.stillUsedBy.length === 0)) {
+				try {
+					await removeOriginal(plugin, file, action);
+					removed++;
+				} catch (err) {
+					errors.push(`${file.name}: ${(err as Error).message}`);
+				}
+			}
+			new Notice(`Images → R2: ${action === 'trash' ? 'Trashed' : 'Archived'} ${removed} original${removed === 1 ? '' : 's'}.` +
+				(errors.length ? ` ${errors.length} failed: ${errors.join('; ')}` : ''));
+		})();
+	}).open();
+}
@@ -0,0 +1,185 @@
+import {App, Modal, Notice, Setting, moment} from 'obsidian';
+import type ImagesR2Plugin from './main';
+import type {UploadRecord} from './records';
+import {ListedObject, listAllObjects} from './storage';
+import {encodeKey} from './keys';
+import {formatSize} from './files';
+import {findRemoteEmbeds} from './embeds';
+
+interface Orphan {
+	object: ListedObject;
+	url: string;
+	uploads: UploadRecord[];   // plugin uploads of this object; empty if it came from elsewhere
+	selected: boolean;
+}
+
+interface VaultText {
+	urls: Set<string>;    // every http(s) URL found in a note
+	contents: string[];   // the notes themselves, for verbatim checks
+}
+
+const URL_PATTERN = /https?:\/\/[^\s)"'<>\]]+/g;
+// encodeKey leaves these as they are, but URL_PATTERN stops at them
+const CUT_KEY_CHARS = /['()]/;
+
+// Every http(s) URL written anywhere in a markdown note, embedded or not
+async function scanVault(app: App): Promise<VaultText> {
+	const urls = new Set<string>();
+	const contents: string[] = [];
+	for (const note of app.vault.getMarkdownFiles()) {
+		const content = await app.vault.cachedRead(note);
+		contents.push(content);
+		for (const match of content.matchAll(URL_PATTERN)) urls.add(match[0]);
+		// The embed parsers read whole URLs, parentheses and quotes included, even inside code
+		for (const embed of findRemoteEmbeds(content, [])) urls.add(embed.url);
+	}
+	return {urls, contents};
+}
+
+function decodeUrl(url: string): string {
+	try { return decodeURI(url); } catch { return url; }
+}
+
+async function findOrphans(plugin: ImagesR2Plugin): Promise<Orphan[] | string> {
+	const storage = plugin.storage();
+	const baseUrl = await storage.resolveBaseUrl();
+	if (!baseUrl) return storage.missingUrlHint();
+	const listing = await listAllObjects(storage);
+	if (!listing.success) return listing.error;
+
+	const vault = await scanVault(plugin.app);
+	const bases = [...new Set([baseUrl, plugin.settings.customDomain].filter(Boolean))];
+	const orphans: Orphan[] = [];
+	for (const object of listing.page.objects) {
+		const urls = bases.map(base => `${base}/${encodeKey(object.key)}`);
+		const uploads: UploadRecord[] = [];
+		for (const url of urls) uploads.push(...await plugin.records.findUploadsByUrl(url));
+		// A record links the managed and custom-domain URLs, so a note may use either
+		const known = [...new Set([...urls, ...uploads.flatMap(u => [u.publicUrl, u.customUrl])])].filter(Boolean);
+		if (known.some(url => vault.urls.has(url))) continue;
+		// A bare URL with a quote or parenthesis in its key may have been cut short, so look for it verbatim
+		if (CUT_KEY_CHARS.test(object.key)) {
+			const forms = known.flatMap(url => [url, decodeUrl(url)]);
+			if (vault.contents.some(content => forms.some(url => content.includes(url)))) continue;
+		}
+		// Objects the plugin never uploaded may belong to something else; leave them unticked
+		orphans.push({object, url: urls[0] ?? '', uploads, selected: uploads.length > 0});
+	}
+	return orphans.sort((a, b) => b.object.size - a.object.size);
+}
+
+class OrphansModal extends Modal {
+	private orphans: Orphan[];
+	private onDelete: (orphans: Orphan[]) => void;
+	private confirming = false;
+
+	constructor(app: App, orphans: Orphan[], onDelete: (orphans: Orphan[]) => void) {
+		super(app);
+		this.orphans = orphans;
+		this.onDelete = onDelete;
+	}
+
+	onOpen() {
+		this.setTitle('Orphaned objects');
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private render() {
+		const el = this.contentEl;
+		el.empty();
+		const selected = this.orphans.filter(o => o.selected);
+		const bytes = selected.reduce((n, o) => n + o.object.size, 0);
+		el.createEl('p', {
+			text: `${this.orphans.length} object${this.orphans.length === 1 ? ' is' : 's are'} not referenced by any note. ` +
+				'Objects this plugin did not upload are left unticked.',
+		});
+
+		const list = el.createDiv('r2-orphans');
+		for (const orphan of this.orphans) {
+			const row = list.createEl('label', {cls: 'r2-orphan'});
+			const checkbox = row.createEl('input', {type: 'checkbox'});
+			checkbox.checked = orphan.selected;
+			checkbox.addEventListener('change', () => {
+				orphan.selected = checkbox.checked;
+				this.confirming = false;
+				this.render();
+			});
+			const info = row.createDiv('r2-orphan-info');
+			info.createDiv({cls: 'r2-orphan-key', text: orphan.object.key});
+			const age = orphan.object.lastModified ? moment(orphan.object.lastModified).fromNow() : 'unknown age';
+			const last = orphan.uploads.at(-1);
+			const origin = !last ? 'not uploaded by this plugin'
+				: last.skipped ? 'link change skipped in review'
+				: `last used in ${last.notePath || 'a pasted image'}`;
+			info.createDiv({cls: 'r2-history-meta', text: `${formatSize(orphan.object.size)} · ${age} · ${origin}`});
+		}
+
+		new Setting(el)
+			.setDesc(`${selected.length} selected · ${formatSize(bytes)}`)
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(btn => btn
+				.setButtonText(this.confirming ? `Delete ${selected.length} permanently` : 'Delete selected')
+				.setWarning()
+				.setDisabled(selected.length === 0)
+				.onClick(() => {
+					// Deleting from the bucket cannot be undone, so ask twice
+					if (!this.confirming) {
+						this.confirming = true;
+						this.render();
+						return;
+					}
+					this.close();
+					this.onDelete(selected);
+				}));
+	}
+}
+
+async function deleteOrphans(plugin: ImagesR2Plugin, orphans: Orphan[]) {
+	const storage = plugin.storage();
+	let deleted = 0;
+	let freed = 0;
+	const errors: string[] = [];
+	await Promise.all(orphans.map(async ({object, url}) => {
+		const outcome = await plugin.transfers.add({
+			id: `delete:${object.key}`,
+			run: () => storage.delete(object.key),
+		});
+		if (!outcome.success) {
+			errors.push(`${object.key}: ${outcome.error}`);
+			return;
+		}
+		deleted++;
+		freed += object.size;
+		await plugin.records.addDeletion({
+			fileName: object.key.split('/').pop() ?? object.key,
+			key: object.key,
+			url,
+			size: object.size,
+		});
+	}));
+	new Notice(`Images → R2: deleted ${deleted} object${deleted === 1 ? '' : 's'} (${formatSize(freed)}).` +
+		(errors.length ? ` ${errors.length} failed: ${errors.join('; ')}` : ''));
+}
+
+// List the bucket, drop everything a note still links to, and offer to delete the rest
+export async function findAndDeleteOrphans(plugin: ImagesR2Plugin) {
+	if (!await plugin.ensureUnlocked()) return;
+	const notice = new Notice('Images → R2: looking for orphaned objects…', 0);
+	const orphans = await findOrphans(plugin);
+	notice.hide();
+	if (typeof orphans === 'string') {
+		new Notice(`Images → R2: ${orphans}`);
+		return;
+	}
+	if (orphans.length === 0) {
+		new Notice('Images → R2: every object in the bucket is referenced by a note.');
+		return;
+	}
+	new OrphansModal(plugin.app, orphans, (selected) => { void deleteOrphans(plugin, selected); }).open();
+}
@@ -0,0 +1,123 @@
+import {Editor, MarkdownFileInfo, MarkdownView, Notice, TFile, moment} from 'obsidian';
+import {EditorView} from '@codemirror/view';
+import type ImagesR2Plugin from './main';
+import {replaceText} from './rewrite';
+import type {LocalEmbed} from './embeds';
+import {sha256Hex} from './keys';
+
+const EXTENSIONS: Record<string, string> = {
+	'image/png': 'png',
+	'image/jpeg': 'jpg',
+	'image/gif': 'gif',
+	'image/webp': 'webp',
+	'image/svg+xml': 'svg',
+	'image/bmp': 'bmp',
+	'image/x-icon': 'ico',
+	'image/tiff': 'tiff',
+};
+
+interface TransferredImage {
+	file: File;
+	basename: string;
+	ext: string;
+}
+
+// Clipboard images are all called image.png, so name them the way Obsidian does.
+// A hash suffix keeps images pasted or dropped in the same second from sharing a key.
+function nameImage(file: File, pasted: boolean, hash: string): TransferredImage {
+	const ext = EXTENSIONS[file.type] ?? file.name.split('.').pop() ?? 'png';
+	if (pasted || !file.name) {
+		return {file, basename: `Pasted image ${moment().format('YYYYMMDDHHmmss')}-${hash.slice(0, 8)}`, ext};
+	}
+	const lastDot = file.name.lastIndexOf('.');
+	return {file, basename: lastDot > 0 ? file.name.slice(0, lastDot) : file.name, ext};
+}
+
+async function uploadOrSave(plugin: ImagesR2Plugin, file: File, pasted: boolean, note: TFile, placeholder: string) {
+	const {app} = plugin;
+	let data: ArrayBuffer;
+	try {
+		data = await file.arrayBuffer();
+	} catch (err) {
+		await replaceText(app, note, placeholder, '');
+		new Notice(`Images → R2: could not read ${file.name || 'the image'}: ${(err as Error).message}`);
+		return;
+	}
+	const image = nameImage(file, pasted, await sha256Hex(data));
+	const fileName = `${image.basename}.${image.ext}`;
+
+	let error = navigator.onLine ? 'Secrets are locked' : 'Offline';
+	if (navigator.onLine && await plugin.ensureUnlocked()) {
+		const baseUrl = await plugin.storage(note).resolveBaseUrl();
+		error = 'No public URL';
+		if (baseUrl) {
+			const result = await plugin.uploadImageData(data, image.basename, image.ext, baseUrl, note);
+			if (result.success) {
+				const embed: LocalEmbed = {kind: 'markdown', fullMatch: placeholder, index: 0, imagePath: fileName, alt: '', size: '', caption: ''};
+				const link = plugin.formatUploadedLink(embed, result.publicUrl, fileName, note);
+				await replaceText(app, note, placeholder, link);
+				await plugin.recordUpload({name: fileName, path: ''}, result, note);
+				return;
+			}
+			error = result.error;
+		}
+	}
+
+	// Fall back to what Obsidian would have done: save the image as an attachment
+	try {
+		const path = await app.fileManager.getAvailablePathForAttachment(fileName, note.path);
+		const saved = await app.vault.createBinary(path, data);
+		await replaceText(app, note, placeholder, `!${app.fileManager.generateMarkdownLink(saved, note.path)}`);
+		new Notice(`Images → R2: upload failed (${error}). Saved ${saved.name} locally.`);
+	} catch (err) {
+		await replaceText(app, note, placeholder, '');
+		new Notice(`Images → R2: could not upload or save ${fileName}: ${(err as Error).message}`);
+	}
+}
+
+// Document offset under the pointer of a drop, or null when it cannot be resolved
+function dropOffset(evt: DragEvent): number | null {
+	const root = evt.target instanceof HTMLElement ? evt.target.closest<HTMLElement>('.cm-editor') : null;
+	const view = root ? EditorView.findFromDOM(root) : null;
+	return view?.posAtCoords({x: evt.clientX, y: evt.clientY}) ?? null;
+}
+
+// editor-paste / editor-drop handler: insert a placeholder per image, then swap in the public URL
+export function handleImageTransfer(
+	plugin: ImagesR2Plugin,
+	evt: ClipboardEvent | DragEvent,
+	data: DataTransfer | null,
+	editor: Editor,
+	info: MarkdownView | MarkdownFileInfo,
+) {
+	if (!plugin.settings.autoUpload || evt.defaultPrevented) return;
+	const note = info.file;
+	// Opted-out notes get Obsidian's own handling: the image is saved to the vault
+	if (!note || !plugin.noteOptions(note).enabled) return;
+	const files = Array.from(data?.files ?? []).filter(f => f.type.startsWith('image/'));
+	if (files.length === 0) return;
+
+	evt.preventDefault();
+	const pasted = evt instanceof ClipboardEvent;
+	const uploads = files.map(file => {
+		const label = pasted || !file.name ? 'pasted image' : file.name;
+		const placeholder = `![Uploading ${label}…](r2-upload-${crypto.randomUUID().slice(0, 8)})`;
+		return {file, placeholder};
+	});
+	const text = uploads.map(u => u.placeholder).join('\n');
+	// Dropped images go where they were dropped, not where the cursor happens to be
+	const offset = evt instanceof DragEvent ? dropOffset(evt) : null;
+	if (offset === null) {
+		editor.replaceSelection(text);
+	} else {
+		editor.replaceRange(text, editor.offsetToPos(offset));
+		editor.setCursor(editor.offsetToPos(offset + text.length));
+	}
+
+	for (const {file, placeholder} of uploads) {
+		// uploadOrSave reports its own failures; this catches whatever escapes it, such as a failed hash or record
+		uploadOrSave(plugin, file, pasted, note, placeholder).catch((err: Error) => {
+			new Notice(`Images → R2: could not upload ${file.name || 'the pasted image'}: ${err.message}`);
+		});
+	}
+}
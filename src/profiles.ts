@@ -0,0 +1,64 @@
+import {App, TFile} from 'obsidian';
+import type {BucketProfile, ImagesR2Settings} from './settings';
+import {frontmatterOf} from './frontmatter';
+
+export const DEFAULT_PROFILE = 'Default';
+export const PROFILE_FRONTMATTER_KEY = 'r2-profile';
+
+export type ProfileResult =
+	| {success: true; name: string; settings: ImagesR2Settings}
+	| {success: false; error: string};
+
+function globToRegExp(glob: string): RegExp {
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const c = glob.charAt(i);
+		if (glob.startsWith('**/', i)) {
+			source += '(?:.*/)?';
+			i += 2;
+		} else if (glob.startsWith('**', i)) {
+			source += '.*';
+			i += 1;
+		} else if (c === '*') {
+			source += '[^/]*';
+		} else if (c === '?') {
+			source += '[^/]';
+		} else {
+			source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+// A rule matches when its glob matches the note's folder or any folder above it,
+// so "Work" and "Clients/*" cover everything nested inside
+export function folderMatches(glob: string, notePath: string): boolean {
+	const pattern = glob.trim().replace(/^\/+|\/+$/g, '');
+	if (!pattern) return false;
+	const regex = globToRegExp(pattern);
+	const parts = notePath.split('/').slice(0, -1);
+	return parts.some((_, i) => regex.test(parts.slice(0, i + 1).join('/')));
+}
+
+// Frontmatter wins over folder rules; rules apply in order; otherwise the default bucket
+export function profileNameFor(app: App, settings: ImagesR2Settings, note: TFile | null): string {
+	if (!note) return DEFAULT_PROFILE;
+	const fromFrontmatter = frontmatterOf(app, note)[PROFILE_FRONTMATTER_KEY];
+	if (typeof fromFrontmatter === 'string' && fromFrontmatter.trim()) return fromFrontmatter.trim();
+	const rule = settings.profileRules.find(r => r.profile && folderMatches(r.folder, note.path));
+	return rule?.profile ?? DEFAULT_PROFILE;
+}
+
+export function applyProfile(settings: ImagesR2Settings, profile: BucketProfile): ImagesR2Settings {
+	const {accountId, r2Token, bucketName, customDomain} = profile;
+	return {...settings, accountId, r2Token, bucketName, customDomain};
+}
+
+export function resolveProfile(app: App, settings: ImagesR2Settings, note: TFile | null): ProfileResult {
+	const name = profileNameFor(app, settings, note);
+	if (name === DEFAULT_PROFILE) return {success: true, name, settings};
+	const profile = settings.profiles.find(p => p.name === name);
+	// Never fall back to the default bucket: a typo must not send work images to a personal bucket
+	if (!profile) return {success: false, error: `Unknown bucket profile "${name}"`};
+	return {success: true, name, settings: applyProfile(settings, profile)};
+}
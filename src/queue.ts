@@ -0,0 +1,152 @@
+export type TransferOutcome =
+	| {success: true}
+	| {success: false; error: string; retryable?: boolean; cancelled?: boolean};
+
+export interface TransferJob {
+	id: string;
+	// isCancelled lets a job skip its side effects (e.g. rewriting the note) once cancelled
+	run(isCancelled: () => boolean): Promise<TransferOutcome>;
+	onRetry?(attempt: number, delayMs: number, error: string): void;
+}
+
+export interface QueueOptions {
+	concurrency: number;
+	maxRetries: number;
+}
+
+export interface QueueProgress {
+	done: number;
+	total: number;
+	active: boolean;
+}
+
+interface QueueEntry {
+	job: TransferJob;
+	outcome: Promise<TransferOutcome>;
+	resolve: (outcome: TransferOutcome) => void;
+	cancelled: boolean;
+	wake?: () => void;   // cuts a backoff wait short on cancel
+}
+
+const CANCELLED: TransferOutcome = {success: false, error: 'Cancelled', cancelled: true};
+const MAX_BACKOFF_MS = 30_000;
+
+// Network errors, rate limiting and server errors are worth retrying; 4xx are not
+export function isRetryableStatus(status: number): boolean {
+	return status === 429 || status >= 500;
+}
+
+function backoffDelay(attempt: number): number {
+	return Math.min(MAX_BACKOFF_MS, 1000 * 2 ** attempt) + Math.floor(Math.random() * 250);
+}
+
+// Shared upload/download queue with a concurrency limit and exponential-backoff retries
+export class TransferQueue {
+	private options: () => QueueOptions;
+	private pending: QueueEntry[] = [];
+	private running = new Map<string, QueueEntry>();
+	private done = 0;
+	private total = 0;
+	private listeners = new Set<() => void>();
+
+	constructor(options: () => QueueOptions) {
+		this.options = options;
+	}
+
+	// A job whose id is already queued or running is the same transfer, so it shares that outcome
+	add(job: TransferJob): Promise<TransferOutcome> {
+		const existing = this.running.get(job.id) ?? this.pending.find(e => e.job.id === job.id);
+		if (existing) return existing.outcome;
+		let resolve: (outcome: TransferOutcome) => void = () => {};
+		const outcome = new Promise<TransferOutcome>(r => { resolve = r; });
+		this.pending.push({job, outcome, resolve, cancelled: false});
+		this.total++;
+		this.notify();
+		this.pump();
+		return outcome;
+	}
+
+	has(id: string): boolean {
+		return this.running.has(id) || this.pending.some(e => e.job.id === id);
+	}
+
+	cancel(id: string) {
+		const index = this.pending.findIndex(e => e.job.id === id);
+		if (index >= 0) {
+			const [entry] = this.pending.splice(index, 1);
+			if (entry) this.settle(entry, CANCELLED);
+			return;
+		}
+		const entry = this.running.get(id);
+		if (entry) {
+			entry.cancelled = true;
+			entry.wake?.();
+		}
+	}
+
+	cancelAll() {
+		for (const entry of [...this.pending]) this.cancel(entry.job.id);
+		for (const id of [...this.running.keys()]) this.cancel(id);
+	}
+
+	progress(): QueueProgress {
+		return {done: this.done, total: this.total, active: this.total > this.done};
+	}
+
+	// Returns an unsubscribe function
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	private notify() {
+		for (const listener of this.listeners) listener();
+	}
+
+	private pump() {
+		const concurrency = Math.max(1, this.options().concurrency);
+		while (this.running.size < concurrency && this.pending.length) {
+			const entry = this.pending.shift();
+			if (!entry) break;
+			this.running.set(entry.job.id, entry);
+			void this.execute(entry);
+		}
+	}
+
+	private async execute(entry: QueueEntry) {
+		const {maxRetries} = this.options();
+		let outcome: TransferOutcome;
+		for (let attempt = 0; ; attempt++) {
+			try {
+				outcome = await entry.job.run(() => entry.cancelled);
+			} catch (err) {
+				outcome = {success: false, error: (err as Error).message, retryable: true};
+			}
+			if (outcome.success || !outcome.retryable || entry.cancelled || attempt >= maxRetries) break;
+
+			const delay = backoffDelay(attempt);
+			entry.job.onRetry?.(attempt + 1, delay, outcome.error);
+			this.notify();
+			await new Promise<void>(resolve => {
+				const timer = window.setTimeout(resolve, delay);
+				entry.wake = () => { window.clearTimeout(timer); resolve(); };
+			});
+			entry.wake = undefined;
+			if (entry.cancelled) break;
+		}
+		this.running.delete(entry.job.id);
+		this.settle(entry, entry.cancelled && !outcome.success ? CANCELLED : outcome);
+		this.pump();
+	}
+
+	private settle(entry: QueueEntry, outcome: TransferOutcome) {
+		this.done++;
+		// Start counting afresh once everything queued so far has finished
+		if (this.done >= this.total && this.running.size === 0 && this.pending.length === 0) {
+			this.done = 0;
+			this.total = 0;
+		}
+		entry.resolve(outcome);
+		this.notify();
+	}
+}
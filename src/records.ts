@@ -1,15 +1,21 @@
-import {App} from 'obsidian';
+import {App, Notice} from 'obsidian';
 
-export const RECORDS_PATH = '.obsidian/images-r2-records.json';
+// Kept in the vault's configuration folder, which is not always .obsidian
+const RECORDS_FILE = 'images-r2-records.json';
 
 export interface UploadRecord {
 	type: 'upload';
 	fileName: string;      // image filename
-	localPath: string;     // vault path of the local image
+	localPath: string;     // vault path of the local image ('' for pasted images never saved locally)
 	publicUrl: string;     // R2 managed public URL
 	customUrl: string;     // custom domain URL (empty if not configured)
 	notePath: string;      // vault path of the note being edited
 	noteFileName: string;  // filename of the note
+	hash?: string;         // SHA-256 of the bytes as uploaded, i.e. after optimisation, not of the vault file (absent in older records)
+	originalSize?: number; // bytes before client-side optimisation
+	finalSize?: number;    // bytes actually uploaded
+	profile?: string;      // bucket profile the upload went to (absent in older records)
+	skipped?: boolean;     // every link change was skipped in review, so no note uses the object
 	at: string;            // ISO 8601 timestamp
 }
 
@@ -23,43 +29,283 @@ export interface DownloadRecord {
 	at: string;
 }
 
-export type ImageRecord = UploadRecord | DownloadRecord;
+export interface RemovalRecord {
+	type: 'removal';
+	fileName: string;
+	localPath: string;     // vault path the original had before removal
+	action: 'trash' | 'archive';
+	archivePath: string;   // where an archived original was moved ('' when trashed)
+	notePath: string;      // always '' — removal is not tied to one note
+	noteFileName: string;
+	at: string;
+}
+
+export interface DeletionRecord {
+	type: 'deletion';
+	fileName: string;      // last segment of the object key
+	key: string;           // object key that was deleted from the bucket
+	url: string;           // public URL the object had
+	size: number;          // bytes freed
+	localPath: string;     // always '' — the object was remote
+	notePath: string;      // always '' — nothing referenced it
+	noteFileName: string;
+	at: string;
+}
+
+export type ImageRecord = UploadRecord | DownloadRecord | RemovalRecord | DeletionRecord;
+
+export interface RecordQuery {
+	type?: ImageRecord['type'];
+	notePath?: string;     // exact vault path of the note
+	fileName?: string;     // case-insensitive substring of the image filename
+	from?: Date;           // inclusive
+	to?: Date;             // inclusive
+}
+
+// URL a record points at: the custom-domain URL when one was configured
+export function recordUrl(record: ImageRecord): string {
+	if (record.type === 'upload') return record.customUrl || record.publicUrl;
+	if (record.type === 'download') return record.remoteUrl;
+	return record.type === 'deletion' ? record.url : '';
+}
+
+const CSV_COLUMNS = ['at', 'type', 'fileName', 'localPath', 'url', 'notePath', 'hash', 'originalSize', 'finalSize', 'profile', 'skipped'] as const;
+
+function csvCell(value: string | number | boolean | undefined): string {
+	const text = value === undefined ? '' : String(value);
+	return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function recordsToCsv(records: ImageRecord[]): string {
+	const rows = records.map(record => {
+		const upload = record.type === 'upload' ? record : null;
+		const values: Record<typeof CSV_COLUMNS[number], string | number | boolean | undefined> = {
+			at: record.at,
+			type: record.type,
+			fileName: record.fileName,
+			localPath: record.localPath,
+			url: recordUrl(record),
+			notePath: record.notePath,
+			hash: upload?.hash,
+			originalSize: upload?.originalSize,
+			finalSize: upload?.finalSize,
+			profile: upload?.profile,
+			skipped: upload?.skipped,
+		};
+		return CSV_COLUMNS.map(column => csvCell(values[column])).join(',');
+	});
+	return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+// Bump when the file layout changes and add a migration from the previous version
+const RECORDS_VERSION = 2;
+
+interface RecordsFile {
+	version: number;
+	records: ImageRecord[];
+}
+
+const MIGRATIONS: Record<number, (file: RecordsFile) => RecordsFile> = {
+	// v1 was a bare array of records
+	1: file => ({version: 2, records: file.records}),
+};
+
+class CorruptRecordsError extends Error {}
+
+function parseRecordsFile(raw: string): RecordsFile {
+	let data: unknown;
+	try {
+		data = JSON.parse(raw);
+	} catch (err) {
+		throw new CorruptRecordsError((err as Error).message);
+	}
+	if (Array.isArray(data)) return {version: 1, records: data as ImageRecord[]};
+	const file = data as Partial<RecordsFile> | null;
+	if (typeof file?.version !== 'number' || !Array.isArray(file.records)) {
+		throw new CorruptRecordsError('Unrecognised records file');
+	}
+	return file as RecordsFile;
+}
 
 export class RecordsManager {
 	private app: App;
 	private records: ImageRecord[] | null = null;
+	private loading: Promise<ImageRecord[]> | null = null;
+	private readOnly = false;   // file is from a newer plugin version; never overwrite it
+	private listeners = new Set<() => void>();
+
+	// Writes are chained so only one is in flight; `dirty` coalesces a burst into one write
+	private writes: Promise<void> = Promise.resolve();
+	private dirty = false;
+
+	// Lookups for large vaults; rebuilt on load and kept current on every append
+	private byUrl = new Map<string, UploadRecord[]>();     // uploads per public or custom URL, oldest first
+	private byHash = new Map<string, UploadRecord>();      // latest upload per content hash
+	private byLocalPath = new Map<string, ImageRecord[]>();
 
 	constructor(app: App) {
 		this.app = app;
 	}
 
-	private async load(): Promise<ImageRecord[]> {
-		if (this.records !== null) return this.records;
+	get path(): string {
+		return `${this.app.vault.configDir}/${RECORDS_FILE}`;
+	}
+
+	private load(): Promise<ImageRecord[]> {
+		if (this.records !== null) return Promise.resolve(this.records);
+		// Concurrent callers share one read
+		this.loading ??= this.read().then(records => {
+			this.records = records;
+			for (const record of records) this.index(record);
+			if (this.dirty) void this.flush();
+			return records;
+		}, err => {
+			this.loading = null;
+			throw err;
+		});
+		return this.loading;
+	}
+
+	private async read(): Promise<ImageRecord[]> {
+		const {adapter} = this.app.vault;
+		if (!await adapter.exists(this.path)) return [];
+
+		const raw = await adapter.read(this.path);
+		let file: RecordsFile;
 		try {
-			const raw = await this.app.vault.adapter.read(RECORDS_PATH);
-			this.records = JSON.parse(raw) as ImageRecord[];
-		} catch {
-			this.records = [];
+			file = parseRecordsFile(raw);
+		} catch (err) {
+			if (!(err instanceof CorruptRecordsError)) throw err;
+			// Keep the unreadable file so history can be recovered by hand, then start afresh
+			const backup = `${this.path}.corrupt-${Date.now()}`;
+			await adapter.write(backup, raw);
+			new Notice(`Images → R2: records file could not be read (${err.message}). A copy was saved to ${backup}.`);
+			return [];
 		}
-		return this.records;
+
+		if (file.version > RECORDS_VERSION) {
+			this.readOnly = true;
+			new Notice('Images → R2: the records file was written by a newer plugin version. New records will not be saved.');
+			return file.records;
+		}
+		const fromVersion = file.version;
+		while (file.version < RECORDS_VERSION) {
+			const migrate = MIGRATIONS[file.version];
+			if (!migrate) throw new Error(`No migration from records version ${file.version}`);
+			file = migrate(file);
+		}
+		if (fromVersion < RECORDS_VERSION) {
+			// Back up the old layout; load() writes the migrated one
+			await adapter.write(`${this.path}.v${fromVersion}.bak`, raw);
+			this.dirty = true;
+		}
+		return file.records;
 	}
 
-	private async save() {
-		await this.app.vault.adapter.write(
-			RECORDS_PATH,
-			JSON.stringify(this.records, null, '\t'),
-		);
+	private index(record: ImageRecord) {
+		if (record.localPath) {
+			const list = this.byLocalPath.get(record.localPath);
+			if (list) list.push(record);
+			else this.byLocalPath.set(record.localPath, [record]);
+		}
+		if (record.type !== 'upload') return;
+		for (const url of new Set([record.publicUrl, record.customUrl])) {
+			if (!url) continue;
+			const list = this.byUrl.get(url);
+			if (list) list.push(record);
+			else this.byUrl.set(url, [record]);
+		}
+		if (record.hash) this.byHash.set(record.hash, record);
 	}
 
-	async addUpload(record: Omit<UploadRecord, 'type' | 'at'>) {
+	private flush(): Promise<void> {
+		this.writes = this.writes.then(async () => {
+			if (!this.dirty || this.readOnly) return;
+			this.dirty = false;
+			const file: RecordsFile = {version: RECORDS_VERSION, records: this.records ?? []};
+			await this.app.vault.adapter.write(this.path, JSON.stringify(file, null, '\t'));
+		}).catch(err => {
+			this.dirty = true;   // try again with the next append
+			new Notice(`Images → R2: could not save records (${(err as Error).message}). Retrying with the next record.`);
+		});
+		return this.writes;
+	}
+
+	private async append(record: ImageRecord) {
 		const records = await this.load();
-		records.push({type: 'upload', at: new Date().toISOString(), ...record});
-		await this.save();
+		records.push(record);
+		this.index(record);
+		this.dirty = true;
+		for (const listener of this.listeners) listener();
+		await this.flush();
 	}
 
-	async addDownload(record: Omit<DownloadRecord, 'type' | 'at'>) {
+	// Returns an unsubscribe function
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	// Matching records, newest first
+	async query(query: RecordQuery = {}): Promise<ImageRecord[]> {
+		const records = await this.load();
+		const name = query.fileName?.toLowerCase();
+		const from = query.from?.getTime();
+		const to = query.to?.getTime();
+		return records.filter(record => {
+			if (query.type && record.type !== query.type) return false;
+			if (query.notePath && record.notePath !== query.notePath) return false;
+			if (name && !record.fileName.toLowerCase().includes(name)) return false;
+			const at = Date.parse(record.at);
+			if (from !== undefined && at < from) return false;
+			if (to !== undefined && at > to) return false;
+			return true;
+		}).reverse();
+	}
+
+	// Distinct note paths that have records, for filter pickers
+	async notePaths(): Promise<string[]> {
 		const records = await this.load();
-		records.push({type: 'download', at: new Date().toISOString(), ...record});
-		await this.save();
+		return [...new Set(records.map(r => r.notePath).filter(Boolean))].sort();
+	}
+
+	async addUpload(record: Omit<UploadRecord, 'type' | 'at'>) {
+		await this.append({type: 'upload', at: new Date().toISOString(), ...record});
+	}
+
+	async addDownload(record: Omit<DownloadRecord, 'type' | 'at'>) {
+		await this.append({type: 'download', at: new Date().toISOString(), ...record});
+	}
+
+	async addRemoval(record: Omit<RemovalRecord, 'type' | 'at' | 'notePath' | 'noteFileName'>) {
+		await this.append({type: 'removal', at: new Date().toISOString(), notePath: '', noteFileName: '', ...record});
+	}
+
+	async addDeletion(record: Omit<DeletionRecord, 'type' | 'at' | 'localPath' | 'notePath' | 'noteFileName'>) {
+		await this.append({type: 'deletion', at: new Date().toISOString(), localPath: '', notePath: '', noteFileName: '', ...record});
+	}
+
+	// Most recent upload whose public or custom-domain URL is exactly this URL
+	async findUploadByUrl(url: string): Promise<UploadRecord | null> {
+		await this.load();
+		return this.byUrl.get(url)?.at(-1) ?? null;
+	}
+
+	// Every upload to this URL, one per note it was embedded in
+	async findUploadsByUrl(url: string): Promise<UploadRecord[]> {
+		await this.load();
+		return [...(this.byUrl.get(url) ?? [])];
+	}
+
+	// Most recent upload of exactly these bytes
+	async findUploadByHash(hash: string): Promise<UploadRecord | null> {
+		await this.load();
+		return this.byHash.get(hash) ?? null;
+	}
+
+	// Every record involving this vault path, oldest first
+	async findByLocalPath(path: string): Promise<ImageRecord[]> {
+		await this.load();
+		return [...(this.byLocalPath.get(path) ?? [])];
 	}
 }
@@ -0,0 +1,201 @@
+import {App, Modal, Notice, Setting, TFile, normalizePath, requestUrl} from 'obsidian';
+import type ImagesR2Plugin from './main';
+import type {UploadRecord} from './records';
+import {RemoteEmbed, findRemoteEmbeds} from './embeds';
+import {ensureFolder, uniquePath} from './files';
+import {rewriteEmbeds} from './rewrite';
+import {isRetryableStatus} from './queue';
+
+interface RevertEntry {
+	note: TFile;
+	embed: RemoteEmbed;
+	record: UploadRecord;
+	local: TFile | null;      // the original image, if it is still in the vault
+	archived: TFile | null;   // the original, moved to the archive folder after upload
+}
+
+// Where the original went if it was archived after upload and is still there
+async function findArchived(plugin: ImagesR2Plugin, localPath: string): Promise<TFile | null> {
+	const history = await plugin.records.findByLocalPath(localPath);
+	const removal = history.filter(r => r.type === 'removal').pop();
+	if (removal?.type !== 'removal' || !removal.archivePath) return null;
+	const file = plugin.app.vault.getAbstractFileByPath(removal.archivePath);
+	return file instanceof TFile ? file : null;
+}
+
+async function scanForReverts(plugin: ImagesR2Plugin, notes: TFile[]): Promise<RevertEntry[]> {
+	const entries: RevertEntry[] = [];
+	for (const note of notes) {
+		const content = await plugin.app.vault.cachedRead(note);
+		const seen = new Set<string>();
+		for (const embed of findRemoteEmbeds(content)) {
+			if (seen.has(embed.fullMatch)) continue;
+			seen.add(embed.fullMatch);
+			const record = await plugin.records.findUploadByUrl(embed.url);
+			if (!record) continue;
+			const found = record.localPath ? plugin.app.vault.getAbstractFileByPath(record.localPath) : null;
+			const local = found instanceof TFile ? found : null;
+			const archived = !local && record.localPath ? await findArchived(plugin, record.localPath) : null;
+			entries.push({note, embed, record, local, archived});
+		}
+	}
+	return entries;
+}
+
+class RevertConfirmModal extends Modal {
+	private entries: RevertEntry[];
+	private scopeLabel: string;
+	private onConfirm: (redownload: boolean) => void;
+	private redownload = true;
+
+	constructor(app: App, entries: RevertEntry[], scope: string, onConfirm: (redownload: boolean) => void) {
+		super(app);
+		this.entries = entries;
+		this.scopeLabel = scope;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		this.setTitle('Revert to local images');
+		const available = this.entries.filter(e => e.local || e.archived).length;
+		const missing = new Set(this.entries.filter(e => !e.local && !e.archived).map(e => e.embed.url));
+		contentEl.createEl('p', {
+			text: `Found ${this.entries.length} uploaded image link${this.entries.length === 1 ? '' : 's'} in ${this.scopeLabel}. ` +
+				`${available} can be pointed back at their local file.`,
+		});
+		if (missing.size) {
+			new Setting(contentEl)
+				.setName(`Re-download ${missing.size} missing image${missing.size === 1 ? '' : 's'}`)
+				.setDesc('The local copy is gone. Download it again and restore it to its original path; otherwise these links stay remote.')
+				.addToggle(toggle => toggle
+					.setValue(this.redownload)
+					.onChange(value => { this.redownload = value; }));
+		}
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(btn => btn
+				.setButtonText('Revert')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onConfirm(this.redownload && missing.size > 0);
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// Download a remote image back to where it was uploaded from, or next to the note if that path is taken
+async function restoreFromRemote(plugin: ImagesR2Plugin, entry: RevertEntry): Promise<TFile> {
+	const {app} = plugin;
+	const response = await requestUrl({url: entry.embed.url, method: 'GET', throw: false});
+	if (response.status < 200 || response.status >= 300) {
+		throw Object.assign(new Error(`HTTP ${response.status}`), {retryable: isRetryableStatus(response.status)});
+	}
+
+	let path: string;
+	if (entry.record.localPath && !app.vault.getAbstractFileByPath(entry.record.localPath)) {
+		path = normalizePath(entry.record.localPath);
+		await ensureFolder(app, path.slice(0, Math.max(0, path.lastIndexOf('/'))));
+	} else {
+		path = uniquePath(app, await app.fileManager.getAvailablePathForAttachment(entry.record.fileName, entry.note.path));
+	}
+	const saved = await app.vault.createBinary(path, response.arrayBuffer);
+	await plugin.records.addDownload({
+		fileName: saved.name,
+		localPath: saved.path,
+		remoteUrl: entry.embed.url,
+		notePath: entry.note.path,
+		noteFileName: entry.note.name,
+	});
+	return saved;
+}
+
+async function runRevert(plugin: ImagesR2Plugin, entries: RevertEntry[], redownload: boolean) {
+	const {app} = plugin;
+	const restored = new Map<string, TFile>();   // remote URL → local file
+	const errors: string[] = [];
+
+	for (const entry of entries) {
+		if (entry.local) restored.set(entry.embed.url, entry.local);
+	}
+
+	// Move archived originals back to where they were uploaded from
+	const moved = new Set<TFile>();
+	for (const entry of entries) {
+		if (!entry.archived || restored.has(entry.embed.url)) continue;
+		if (moved.has(entry.archived)) {
+			restored.set(entry.embed.url, entry.archived);
+			continue;
+		}
+		try {
+			const path = app.vault.getAbstractFileByPath(entry.record.localPath)
+				? uniquePath(app, entry.record.localPath)
+				: normalizePath(entry.record.localPath);
+			await ensureFolder(app, path.slice(0, Math.max(0, path.lastIndexOf('/'))));
+			await app.fileManager.renameFile(entry.archived, path);
+			moved.add(entry.archived);
+			restored.set(entry.embed.url, entry.archived);
+		} catch (err) {
+			errors.push(`${entry.record.fileName}: ${(err as Error).message}`);
+		}
+	}
+
+	if (redownload) {
+		const missing = new Map<string, RevertEntry>();
+		for (const entry of entries) {
+			if (!entry.local && !entry.archived && !missing.has(entry.embed.url)) missing.set(entry.embed.url, entry);
+		}
+		await Promise.all([...missing.values()].map(entry => plugin.transfers.add({
+			id: `revert:${entry.embed.url}`,
+			run: async () => {
+				try {
+					restored.set(entry.embed.url, await restoreFromRemote(plugin, entry));
+					return {success: true};
+				} catch (err) {
+					const retryable = (err as {retryable?: boolean}).retryable ?? false;
+					return {success: false, error: (err as Error).message, retryable};
+				}
+			},
+		}).then(outcome => {
+			if (!outcome.success) errors.push(`${entry.record.fileName}: ${outcome.error}`);
+		})));
+	}
+
+	let reverted = 0;
+	const notes = new Set(entries.map(e => e.note));
+	for (const note of notes) {
+		const replacements = entries
+			.filter(e => e.note === note && restored.has(e.embed.url))
+			.map(e => {
+				const file = restored.get(e.embed.url)!;
+				return {fullMatch: e.embed.fullMatch, replacement: plugin.formatDownloadedLink(file, note, e.embed)};
+			});
+		if (replacements.length === 0) continue;
+		try {
+			reverted += await rewriteEmbeds(app, note, replacements);
+		} catch (err) {
+			errors.push(`${note.path}: ${(err as Error).message}`);
+		}
+	}
+
+	new Notice(`Images → R2: reverted ${reverted} link${reverted === 1 ? '' : 's'} to local images.` +
+		(errors.length ? ` ${errors.length} failed: ${errors.join('; ')}` : ''));
+}
+
+// Rewrite uploaded image URLs back to local embeds, using the upload records to find the originals
+export async function revertNotes(plugin: ImagesR2Plugin, notes: TFile[], scope: string) {
+	const entries = await scanForReverts(plugin, notes);
+	if (entries.length === 0) {
+		new Notice(`Images → R2: no uploaded images with records found in ${scope}.`);
+		return;
+	}
+	new RevertConfirmModal(plugin.app, entries, scope, (redownload) => {
+		void runRevert(plugin, entries, redownload);
+	}).open();
+}
@@ -0,0 +1,164 @@
+import {App, Modal, Setting, TFile} from 'obsidian';
+import {findEditorForFile} from './rewrite';
+
+export interface ProposedChange {
+	note: TFile;
+	lines: number[];       // 0-based line of every occurrence, as tracked when the note was scanned
+	fullMatch: string;     // embed text to replace
+	replacement: string;
+}
+
+// The occurrences of a change the user kept, counted from 0 in the order of `lines`
+export interface ApprovedChange {
+	change: ProposedChange;
+	occurrences: number[];
+}
+
+// One row per occurrence, so the same embed written twice can be kept in one place only
+interface ChangeDiff {
+	change: ProposedChange;
+	occurrence: number;
+	line: number;          // where the embed is now, in case the note moved on; -1 once it is gone
+	before: string;
+	after: string;
+	approved: boolean;
+}
+
+export function lineOf(content: string, index: number): number {
+	return content.slice(0, index).split('\n').length - 1;
+}
+
+// The text an embed starting on this line covers, which is several lines for a wrapped <img> tag
+function textAt(lines: string[], line: number, fullMatch: string): string {
+	return lines.slice(line, line + fullMatch.split('\n').length).join('\n');
+}
+
+function replaceNth(text: string, search: string, replacement: string, nth: number): string {
+	const parts = text.split(search);
+	return parts.slice(0, nth + 1).join(search) + replacement + parts.slice(nth + 1).join(search);
+}
+
+// Prefer the tracked line while it still holds this copy; fall back to the nearest line holding one
+function locate(lines: string[], fullMatch: string, line: number, nth: number): {line: number; nth: number} {
+	if (textAt(lines, line, fullMatch).split(fullMatch).length - 1 > nth) return {line, nth};
+	let best = -1;
+	lines.forEach((_, i) => {
+		if (textAt(lines, i, fullMatch).includes(fullMatch) && (best < 0 || Math.abs(i - line) < Math.abs(best - line))) best = i;
+	});
+	return {line: best, nth: 0};
+}
+
+async function diffChanges(app: App, changes: ProposedChange[]): Promise<ChangeDiff[]> {
+	const noteLines = new Map<string, string[]>();
+	const diffs: ChangeDiff[] = [];
+	for (const change of changes) {
+		let lines = noteLines.get(change.note.path);
+		if (!lines) {
+			const content = findEditorForFile(app, change.note)?.editor.getValue() ?? await app.vault.cachedRead(change.note);
+			lines = content.split('\n');
+			noteLines.set(change.note.path, lines);
+		}
+		change.lines.forEach((tracked, occurrence) => {
+			// Copies on one line are told apart by their order on it
+			const nth = change.lines.slice(0, occurrence).filter(l => l === tracked).length;
+			const {line, nth: at} = locate(lines, change.fullMatch, tracked, nth);
+			if (line < 0) {
+				diffs.push({change, occurrence, line, before: change.fullMatch, after: change.replacement, approved: false});
+				return;
+			}
+			const before = textAt(lines, line, change.fullMatch);
+			diffs.push({change, occurrence, line, before, after: replaceNth(before, change.fullMatch, change.replacement, at), approved: true});
+		});
+	}
+	return diffs;
+}
+
+class RewriteReviewModal extends Modal {
+	private diffs: ChangeDiff[];
+	private resolve: (approved: ApprovedChange[]) => void = () => {};
+	private applied = false;
+
+	constructor(app: App, diffs: ChangeDiff[]) {
+		super(app);
+		this.diffs = diffs;
+	}
+
+	choose(): Promise<ApprovedChange[]> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		this.setTitle('Review link changes');
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		// Closing without applying leaves every note as it is
+		this.resolve(this.applied ? this.approvedChanges() : []);
+	}
+
+	private approvedChanges(): ApprovedChange[] {
+		const byChange = new Map<ProposedChange, number[]>();
+		for (const diff of this.diffs) {
+			if (!diff.approved) continue;
+			byChange.set(diff.change, [...byChange.get(diff.change) ?? [], diff.occurrence]);
+		}
+		return [...byChange].map(([change, occurrences]) => ({change, occurrences}));
+	}
+
+	private render() {
+		const el = this.contentEl;
+		el.empty();
+		const approved = this.diffs.filter(d => d.approved).length;
+		const total = this.diffs.filter(d => d.line >= 0).length;
+		el.createEl('p', {text: `${total} link${total === 1 ? '' : 's'} will change. Untick any you want to leave as they are.`});
+
+		const list = el.createDiv('r2-review');
+		let notePath = '';
+		for (const diff of this.diffs) {
+			if (diff.change.note.path !== notePath) {
+				notePath = diff.change.note.path;
+				list.createDiv({cls: 'r2-review-note', text: notePath});
+			}
+			const row = list.createEl('label', {cls: 'r2-review-change'});
+			const checkbox = row.createEl('input', {type: 'checkbox'});
+			checkbox.checked = diff.approved;
+			// Nothing is left to change once the embed is gone from the note
+			checkbox.disabled = diff.line < 0;
+			checkbox.addEventListener('change', () => {
+				diff.approved = checkbox.checked;
+				this.render();
+			});
+			const body = row.createDiv('r2-review-body');
+			body.createDiv({cls: 'r2-history-meta', text: diff.line >= 0 ? `Line ${diff.line + 1}` : 'No longer in the note'});
+			body.createDiv({cls: 'r2-review-line r2-review-before', text: `- ${diff.before}`});
+			body.createDiv({cls: 'r2-review-line r2-review-after', text: `+ ${diff.after}`});
+		}
+
+		new Setting(el)
+			.setDesc(`${approved} of ${total} selected`)
+			.addButton(btn => btn
+				.setButtonText('Skip all')
+				.onClick(() => this.close()))
+			.addButton(btn => btn
+				.setButtonText(`Apply ${approved}`)
+				.setCta()
+				.setDisabled(approved === 0)
+				.onClick(() => {
+					this.applied = true;
+					this.close();
+				}));
+	}
+}
+
+// Show each occurrence of each replacement as a before/after line and resolve to the approved ones
+export async function reviewChanges(app: App, changes: ProposedChange[]): Promise<ApprovedChange[]> {
+	if (changes.length === 0) return [];
+	const diffs = await diffChanges(app, changes);
+	diffs.sort((a, b) => a.change.note.path.localeCompare(b.change.note.path) || a.line - b.line);
+	return new RewriteReviewModal(app, diffs).choose();
+}
@@ -0,0 +1,68 @@
+import {App, MarkdownView, TFile} from 'obsidian';
+import {TextChange, applyChanges, embedChanges} from './embeds';
+
+export interface EmbedReplacement {
+	fullMatch: string;     // embed text as it appears in the note
+	replacement: string;   // text to put in its place
+	occurrences?: number[];   // which real occurrences to replace, counted from 0; every one when absent
+}
+
+export function findEditorForFile(app: App, file: TFile): MarkdownView | null {
+	let target: MarkdownView | null = null;
+	app.workspace.iterateAllLeaves(leaf => {
+		if (!target && leaf.view instanceof MarkdownView && leaf.view.file?.path === file.path) {
+			target = leaf.view;
+		}
+	});
+	return target;
+}
+
+function collectChanges(content: string, replacements: EmbedReplacement[]): TextChange[] {
+	return replacements.flatMap(r => embedChanges(content, r.fullMatch, r.replacement)
+		.filter((_, i) => !r.occurrences || r.occurrences.includes(i)));
+}
+
+// Replace embeds in a note and return how many were replaced. An open note is
+// edited with a single editor transaction so cursor, scroll and undo history
+// survive; a closed note is rewritten atomically through the vault.
+export async function rewriteEmbeds(app: App, note: TFile, replacements: EmbedReplacement[]): Promise<number> {
+	const editorView = findEditorForFile(app, note);
+	if (editorView) {
+		const editor = editorView.editor;
+		const changes = collectChanges(editor.getValue(), replacements);
+		if (changes.length === 0) return 0;
+		editor.transaction({
+			changes: changes.map(c => ({from: editor.offsetToPos(c.from), to: editor.offsetToPos(c.to), text: c.text})),
+		});
+		return changes.length;
+	}
+
+	let count = 0;
+	await app.vault.process(note, (data) => {
+		const changes = collectChanges(data, replacements);
+		count = changes.length;
+		return applyChanges(data, changes);
+	});
+	return count;
+}
+
+// Replace the first occurrence of a literal string, e.g. an upload placeholder
+export async function replaceText(app: App, note: TFile, search: string, replacement: string): Promise<boolean> {
+	const editorView = findEditorForFile(app, note);
+	if (editorView) {
+		const editor = editorView.editor;
+		const index = editor.getValue().indexOf(search);
+		if (index < 0) return false;
+		editor.replaceRange(replacement, editor.offsetToPos(index), editor.offsetToPos(index + search.length));
+		return true;
+	}
+
+	let found = false;
+	await app.vault.process(note, (data) => {
+		const index = data.indexOf(search);
+		if (index < 0) return data;
+		found = true;
+		return data.slice(0, index) + replacement + data.slice(index + search.length);
+	});
+	return found;
+}
@@ -0,0 +1,142 @@
+import {RequestUrlResponse, requestUrl} from 'obsidian';
+
+export interface S3Config {
+	endpoint: string;        // e.g. https://<account>.r2.cloudflarestorage.com or http://localhost:9000
+	region: string;          // 'auto' for R2, 'us-east-1' for most MinIO setups
+	bucket: string;
+	accessKeyId: string;
+	secretAccessKey: string;
+}
+
+export interface S3Request {
+	method: 'GET' | 'HEAD' | 'PUT' | 'DELETE';
+	key?: string;
+	query?: Record<string, string>;
+	headers?: Record<string, string>;
+	body?: ArrayBuffer;
+}
+
+const EMPTY_SHA256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+	return Array.from(new Uint8Array(buffer))
+		.map(b => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+async function sha256(data: ArrayBuffer | string): Promise<string> {
+	const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+	return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+	const cryptoKey = await crypto.subtle.importKey('raw', key, {name: 'HMAC', hash: 'SHA-256'}, false, ['sign']);
+	return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+// RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+function uriEncode(value: string): string {
+	return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export function isR2Endpoint(endpoint: string): boolean {
+	return /\.r2\.cloudflarestorage\.com\/?$/i.test(endpoint);
+}
+
+export function r2Endpoint(accountId: string): string {
+	return `https://${accountId}.r2.cloudflarestorage.com`;
+}
+
+// Minimal S3 client using path-style addressing and AWS Signature Version 4
+export class S3Client {
+	private config: S3Config;
+
+	constructor(config: S3Config) {
+		this.config = {...config, endpoint: config.endpoint.replace(/\/+$/, '')};
+	}
+
+	objectPath(key: string): string {
+		const segments = [this.config.bucket, ...key.split('/')];
+		return '/' + segments.map(uriEncode).join('/');
+	}
+
+	async send(req: S3Request): Promise<RequestUrlResponse> {
+		const path = req.key !== undefined ? this.objectPath(req.key) : `/${uriEncode(this.config.bucket)}`;
+		const query = Object.keys(req.query ?? {})
+			.sort()
+			.map(k => `${uriEncode(k)}=${uriEncode(req.query?.[k] ?? '')}`)
+			.join('&');
+		const url = `${this.config.endpoint}${path}${query ? `?${query}` : ''}`;
+		const headers = await this.sign(req.method, url, path, query, req.headers ?? {}, req.body);
+		return requestUrl({url, method: req.method, headers, body: req.body, throw: false});
+	}
+
+	private async sign(
+		method: string,
+		url: string,
+		path: string,
+		query: string,
+		extraHeaders: Record<string, string>,
+		body?: ArrayBuffer,
+	): Promise<Record<string, string>> {
+		const {region, accessKeyId, secretAccessKey} = this.config;
+		const now = new Date();
+		const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+		const dateStamp = amzDate.slice(0, 8);
+		const payloadHash = body ? await sha256(body) : EMPTY_SHA256;
+
+		const headers: Record<string, string> = {
+			...extraHeaders,
+			'x-amz-content-sha256': payloadHash,
+			'x-amz-date': amzDate,
+		};
+		const canonical: Record<string, string> = {host: new URL(url).host};
+		for (const name of Object.keys(headers)) {
+			canonical[name.toLowerCase()] = (headers[name] ?? '').trim().replace(/\s+/g, ' ');
+		}
+		const signedNames = Object.keys(canonical).sort();
+		const canonicalHeaders = signedNames.map(n => `${n}:${canonical[n]}\n`).join('');
+		const signedHeaders = signedNames.join(';');
+
+		const canonicalRequest = [method, path, query, canonicalHeaders, signedHeaders, payloadHash].join('\n');
+		const scope = `${dateStamp}/${region}/s3/aws4_request`;
+		const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256(canonicalRequest)].join('\n');
+
+		let signingKey = await hmac(encoder.encode(`AWS4${secretAccessKey}`), dateStamp);
+		signingKey = await hmac(signingKey, region);
+		signingKey = await hmac(signingKey, 's3');
+		signingKey = await hmac(signingKey, 'aws4_request');
+		const signature = toHex(await hmac(signingKey, stringToSign));
+
+		headers['Authorization'] =
+			`AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+		return headers;
+	}
+
+	putObject(key: string, body: ArrayBuffer, contentType: string): Promise<RequestUrlResponse> {
+		return this.send({method: 'PUT', key, body, headers: {'Content-Type': contentType}});
+	}
+
+	headObject(key: string): Promise<RequestUrlResponse> {
+		return this.send({method: 'HEAD', key});
+	}
+
+	deleteObject(key: string): Promise<RequestUrlResponse> {
+		return this.send({method: 'DELETE', key});
+	}
+
+	// ListObjectsV2, one level at a time when a delimiter is given
+	listObjects(prefix: string, delimiter: string, continuationToken: string | null, maxKeys: number): Promise<RequestUrlResponse> {
+		const query: Record<string, string> = {'list-type': '2', prefix, delimiter, 'max-keys': String(maxKeys)};
+		if (continuationToken) query['continuation-token'] = continuationToken;
+		return this.send({method: 'GET', query});
+	}
+}
+
+// S3 errors are XML: <Error><Code>…</Code><Message>…</Message></Error>
+export function s3ErrorMessage(response: RequestUrlResponse): string {
+	const match = /<Message>([^<]*)<\/Message>/.exec(response.text ?? '');
+	return match?.[1] ? match[1] : `HTTP ${response.status}`;
+}
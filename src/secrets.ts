@@ -0,0 +1,197 @@
+import {App, Modal, Setting, arrayBufferToBase64, base64ToArrayBuffer} from 'obsidian';
+import type {ImagesR2Settings} from './settings';
+
+// Stored in data.json in place of the plaintext secrets
+export interface EncryptedSecrets {
+	salt: string;        // base64 PBKDF2 salt
+	iterations: number;
+	iv: string;          // base64 AES-GCM nonce, fresh on every save
+	data: string;        // base64 ciphertext of the Secrets JSON
+}
+
+interface Secrets {
+	r2Token: string;
+	s3SecretAccessKey: string;
+	webdavPassword: string;
+	profileTokens: string[];   // in profile order, as names can change
+}
+
+const ITERATIONS = 310_000;
+const encoder = new TextEncoder();
+
+export class WrongPassphraseError extends Error {}
+
+function extractSecrets(settings: ImagesR2Settings): Secrets {
+	return {
+		r2Token: settings.r2Token,
+		s3SecretAccessKey: settings.s3SecretAccessKey,
+		webdavPassword: settings.webdavPassword,
+		profileTokens: settings.profiles.map(p => p.r2Token),
+	};
+}
+
+function applySecrets(settings: ImagesR2Settings, secrets: Secrets) {
+	settings.r2Token = secrets.r2Token;
+	settings.s3SecretAccessKey = secrets.s3SecretAccessKey;
+	settings.webdavPassword = secrets.webdavPassword;
+	settings.profiles = settings.profiles.map((p, i) => ({...p, r2Token: secrets.profileTokens[i] ?? ''}));
+}
+
+export function hasPlaintextSecrets(settings: ImagesR2Settings): boolean {
+	const secrets = extractSecrets(settings);
+	return !!(secrets.r2Token || secrets.s3SecretAccessKey || secrets.webdavPassword || secrets.profileTokens.some(Boolean));
+}
+
+async function deriveKey(passphrase: string, salt: ArrayBuffer, iterations: number): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+	return crypto.subtle.deriveKey(
+		{name: 'PBKDF2', salt, iterations, hash: 'SHA-256'},
+		material,
+		{name: 'AES-GCM', length: 256},
+		false,
+		['encrypt', 'decrypt'],
+	);
+}
+
+// Holds the session key; settings keep the secrets in memory only while unlocked
+export class SecretVault {
+	private key: CryptoKey | null = null;
+
+	isEncrypted(settings: ImagesR2Settings): boolean {
+		return !!settings.encryptedSecrets;
+	}
+
+	isLocked(settings: ImagesR2Settings): boolean {
+		return this.isEncrypted(settings) && !this.key;
+	}
+
+	// Start encrypting with a new passphrase, taking over whatever secrets are in settings now
+	async enable(settings: ImagesR2Settings, passphrase: string) {
+		const salt = crypto.getRandomValues(new Uint8Array(16));
+		this.key = await deriveKey(passphrase, salt.buffer, ITERATIONS);
+		settings.encryptedSecrets = await this.encrypt(extractSecrets(settings), arrayBufferToBase64(salt.buffer), ITERATIONS);
+	}
+
+	async unlock(settings: ImagesR2Settings, passphrase: string) {
+		const sealed = settings.encryptedSecrets;
+		if (!sealed) return;
+		const key = await deriveKey(passphrase, base64ToArrayBuffer(sealed.salt), sealed.iterations);
+		let plain: ArrayBuffer;
+		try {
+			plain = await crypto.subtle.decrypt({name: 'AES-GCM', iv: base64ToArrayBuffer(sealed.iv)}, key, base64ToArrayBuffer(sealed.data));
+		} catch {
+			// AES-GCM authentication fails on a wrong key
+			throw new WrongPassphraseError('Wrong passphrase');
+		}
+		this.key = key;
+		applySecrets(settings, JSON.parse(new TextDecoder().decode(plain)) as Secrets);
+	}
+
+	lock(settings: ImagesR2Settings) {
+		if (!this.isEncrypted(settings)) return;
+		this.key = null;
+		applySecrets(settings, {r2Token: '', s3SecretAccessKey: '', webdavPassword: '', profileTokens: []});
+	}
+
+	// Back to plaintext; only possible while unlocked so the secrets are known
+	disable(settings: ImagesR2Settings) {
+		if (this.isLocked(settings)) return;
+		this.key = null;
+		settings.encryptedSecrets = null;
+	}
+
+	// What goes to data.json: secrets blanked and re-encrypted, or left as they were while locked
+	async seal(settings: ImagesR2Settings): Promise<ImagesR2Settings> {
+		const sealed = settings.encryptedSecrets;
+		if (!sealed) return settings;
+		const encryptedSecrets = this.key ? await this.encrypt(extractSecrets(settings), sealed.salt, sealed.iterations) : sealed;
+		const stored = {...settings, encryptedSecrets};
+		applySecrets(stored, {r2Token: '', s3SecretAccessKey: '', webdavPassword: '', profileTokens: []});
+		return stored;
+	}
+
+	private async encrypt(secrets: Secrets, salt: string, iterations: number): Promise<EncryptedSecrets> {
+		if (!this.key) throw new Error('Secrets are locked');
+		const iv = crypto.getRandomValues(new Uint8Array(12));
+		const data = await crypto.subtle.encrypt({name: 'AES-GCM', iv}, this.key, encoder.encode(JSON.stringify(secrets)));
+		return {salt, iterations, iv: arrayBufferToBase64(iv.buffer), data: arrayBufferToBase64(data)};
+	}
+}
+
+// Asks for a passphrase; onSubmit returns an error to show, or null to close
+export class PassphraseModal extends Modal {
+	private title: string;
+	private description: string;
+	private confirm: boolean;
+	private onSubmit: (passphrase: string) => Promise<string | null>;
+	private submitted = false;
+	private onDismiss: () => void = () => {};
+
+	constructor(app: App, options: {title: string; description: string; confirm: boolean; onSubmit: (passphrase: string) => Promise<string | null>}) {
+		super(app);
+		this.title = options.title;
+		this.description = options.description;
+		this.confirm = options.confirm;
+		this.onSubmit = options.onSubmit;
+	}
+
+	// Resolves true once the passphrase was accepted, false when dismissed
+	ask(): Promise<boolean> {
+		return new Promise(resolve => {
+			this.onDismiss = () => resolve(this.submitted);
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		this.setTitle(this.title);
+		contentEl.createEl('p', {text: this.description});
+
+		let passphrase = '';
+		let repeat = '';
+		const errorEl = contentEl.createDiv('r2-row-error r2-passphrase-error');
+		const submit = async () => {
+			if (!passphrase) return;
+			if (this.confirm && passphrase !== repeat) {
+				errorEl.setText('The passphrases do not match.');
+				return;
+			}
+			errorEl.setText('');
+			const error = await this.onSubmit(passphrase);
+			if (error) {
+				errorEl.setText(error);
+				return;
+			}
+			this.submitted = true;
+			this.close();
+		};
+		const field = (name: string, onChange: (value: string) => void) => new Setting(contentEl)
+			.setName(name)
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text.onChange(onChange);
+				text.inputEl.addEventListener('keydown', (e) => {
+					if (e.key === 'Enter') void submit();
+				});
+			});
+		field('Passphrase', value => { passphrase = value; });
+		if (this.confirm) field('Repeat passphrase', value => { repeat = value; });
+		contentEl.appendChild(errorEl);
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(btn => btn
+				.setButtonText(this.confirm ? 'Encrypt' : 'Unlock')
+				.setCta()
+				.onClick(() => { void submit(); }));
+		contentEl.querySelector('input')?.focus();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onDismiss();
+	}
+}
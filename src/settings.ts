@@ -1,21 +1,112 @@
-import {App, Notice, PluginSettingTab, Setting} from "obsidian";
+import {App, FileSystemAdapter, Notice, PluginSettingTab, Setting, TextComponent, setIcon} from "obsidian";
 import ImagesR2Plugin from "./main";
-import {RECORDS_PATH} from "./records";
+import {effectiveKeyTemplate, expandKeyTemplate} from "./keys";
+import {CheckResult, CheckStatus, testConnection} from "./diagnostics";
+import {DEFAULT_PROFILE, PROFILE_FRONTMATTER_KEY} from "./profiles";
+import {EncryptedSecrets, PassphraseModal, hasPlaintextSecrets} from "./secrets";
+import {DOWNLOAD_TEMPLATES, DownloadLinkFormat, LINK_TOKENS, UPLOAD_TEMPLATES, UploadLinkFormat} from "./linkformat";
+
+export type UploadBackend = 'cloudflare-api' | 's3' | 'local' | 'webdav';
+
+export type OriginalsAction = 'keep' | 'trash' | 'archive';
+
+// A named bucket that overrides the default account, token, bucket and domain
+export interface BucketProfile {
+	name: string;
+	accountId: string;
+	r2Token: string;
+	bucketName: string;
+	customDomain: string;
+}
+
+// Notes whose path matches the folder glob upload with the named profile
+export interface ProfileRule {
+	folder: string;
+	profile: string;
+}
+
+const CHECK_ICONS: Record<CheckStatus, string> = {
+	pass: 'check-circle',
+	warn: 'alert-triangle',
+	fail: 'x-circle',
+	skip: 'minus-circle',
+};
 
 export interface ImagesR2Settings {
+	backend: UploadBackend;
 	accountId: string;
 	r2Token: string;
 	bucketName: string;
 	customDomain: string;
 	downloadFolder: string;
+	hashKeys: boolean;
+	keyTemplate: string;
+	autoUpload: boolean;
+	concurrency: number;
+	maxRetries: number;
+	maxImageDimension: number;
+	imageQuality: number;
+	convertPngToWebp: boolean;
+	stripMetadata: boolean;
+	originalsAfterUpload: OriginalsAction;
+	archiveFolder: string;
+	s3Endpoint: string;
+	s3Region: string;
+	s3AccessKeyId: string;
+	s3SecretAccessKey: string;
+	localFolder: string;
+	webdavUrl: string;
+	webdavUsername: string;
+	webdavPassword: string;
+	profiles: BucketProfile[];
+	profileRules: ProfileRule[];
+	encryptedSecrets: EncryptedSecrets | null;   // set when secrets are encrypted with a passphrase
+	uploadLinkFormat: UploadLinkFormat;
+	uploadLinkTemplate: string;
+	downloadLinkFormat: DownloadLinkFormat;
+	downloadLinkTemplate: string;
+	reviewRewrites: boolean;
 }
 
 export const DEFAULT_SETTINGS: ImagesR2Settings = {
+	backend: 'cloudflare-api',
 	accountId: '',
 	r2Token: '',
 	bucketName: '',
 	customDomain: '',
 	downloadFolder: '',
+	hashKeys: false,
+	keyTemplate: '',
+	autoUpload: false,
+	concurrency: 3,
+	maxRetries: 3,
+	maxImageDimension: 0,
+	imageQuality: 85,
+	convertPngToWebp: false,
+	stripMetadata: false,
+	originalsAfterUpload: 'keep',
+	archiveFolder: 'Uploaded originals',
+	s3Endpoint: '',
+	s3Region: 'auto',
+	s3AccessKeyId: '',
+	s3SecretAccessKey: '',
+	localFolder: '',
+	webdavUrl: '',
+	webdavUsername: '',
+	webdavPassword: '',
+	profiles: [],
+	profileRules: [],
+	encryptedSecrets: null,
+	uploadLinkFormat: 'auto',
+	uploadLinkTemplate: '',
+	downloadLinkFormat: 'wiki',
+	downloadLinkTemplate: '',
+	reviewRewrites: false,
+}
+
+// App#openWithDefaultApp is not part of the public API
+interface DefaultApp {
+	openWithDefaultApp(path: string): Promise<void>;
 }
 
 export class ImagesR2SettingTab extends PluginSettingTab {
@@ -29,67 +120,211 @@ export class ImagesR2SettingTab extends PluginSettingTab {
 	display(): void {
 		const {containerEl} = this;
 		containerEl.empty();
-		containerEl.createEl('h2', {text: 'Images → R2 Settings'});
+		new Setting(containerEl)
+			.setName('Upload backend')
+			.setDesc('Where images are stored. The S3-compatible backend signs requests with an access key and works with any S3 server. A local folder suits a self-hosted static site.')
+			.addDropdown(dropdown => dropdown
+				.addOption('cloudflare-api', 'Cloudflare API')
+				.addOption('s3', 'S3-compatible')
+				.addOption('local', 'Local folder')
+				.addOption('webdav', 'WebDAV')
+				.setValue(this.plugin.settings.backend)
+				.onChange(async (value) => {
+					this.plugin.settings.backend = value as UploadBackend;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		const {backend} = this.plugin.settings;
+		if (backend === 'cloudflare-api' || backend === 's3') this.displayBucketSettings(containerEl);
+		else if (backend === 'local') this.displayLocalSettings(containerEl);
+		else this.displayWebDavSettings(containerEl);
 
 		new Setting(containerEl)
-			.setName('Account ID')
-			.setDesc('Your Cloudflare Account ID')
+			.setName('Custom domain')
+			.setDesc(backend === 'local'
+				? 'Required for a local folder. Base URL where the folder is served (e.g., https://static.example.com/images).'
+				: 'Optional. Base URL for public image access (e.g., https://cdn.example.com). If left empty, the bucket\'s R2 managed public domain will be used automatically.')
 			.addText(text => text
-				.setPlaceholder('xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx')
-				.setValue(this.plugin.settings.accountId)
+				.setPlaceholder('https://cdn.example.com')
+				.setValue(this.plugin.settings.customDomain)
 				.onChange(async (value) => {
-					this.plugin.settings.accountId = value.trim();
+					this.plugin.settings.customDomain = value.trim().replace(/\/$/, '');
 					await this.plugin.saveSettings();
 				}));
 
+		this.displayConnectionTest(containerEl);
+
 		new Setting(containerEl)
-			.setName('R2 API Token')
-			.setDesc('Cloudflare R2 API Token (requires Workers R2 Storage: Edit permission)')
-			.addText(text => {
-				text.inputEl.type = 'password';
-				text
-					.setPlaceholder('Your R2 API token')
-					.setValue(this.plugin.settings.r2Token)
-					.onChange(async (value) => {
-						this.plugin.settings.r2Token = value.trim();
-						await this.plugin.saveSettings();
-					});
-			});
+			.setName('Content-hash object keys')
+			.setDesc('Name uploaded objects after a SHA-256 hash of their contents instead of the file name. Same-named images never overwrite each other, and identical images are stored once.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.hashKeys)
+				.onChange(async (value) => {
+					this.plugin.settings.hashKeys = value;
+					await this.plugin.saveSettings();
+					updatePreview();
+				}));
 
 		new Setting(containerEl)
-			.setName('Bucket Name')
-			.setDesc('The R2 bucket to upload images to')
+			.setName('Object key template')
+			.setDesc('Optional. Tokens: {name}, {ext}, {hash} or {hash:8}, {noteFolder}, {noteName}, {yyyy}, {mm}, {dd}. Leave empty to use the file name (or content hash if enabled above).')
 			.addText(text => text
-				.setPlaceholder('my-images-bucket')
-				.setValue(this.plugin.settings.bucketName)
+				.setPlaceholder('{noteFolder}/{yyyy}/{mm}/{hash:8}-{name}.{ext}')
+				.setValue(this.plugin.settings.keyTemplate)
 				.onChange(async (value) => {
-					this.plugin.settings.bucketName = value.trim();
+					this.plugin.settings.keyTemplate = value.trim();
 					await this.plugin.saveSettings();
+					updatePreview();
 				}));
 
+		const preview = new Setting(containerEl).setName('Key preview');
+		const updatePreview = () => {
+			const {keyTemplate, hashKeys} = this.plugin.settings;
+			const key = expandKeyTemplate(effectiveKeyTemplate(keyTemplate, hashKeys), {
+				name: 'Pasted image',
+				ext: 'png',
+				hash: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+				notePath: 'Projects/Alpha/Meeting notes.md',
+				date: new Date(),
+			});
+			preview.setDesc(`Projects/Alpha/Meeting notes.md → ${key}`);
+		};
+		updatePreview();
+
 		new Setting(containerEl)
-			.setName('Custom Domain')
-			.setDesc('Optional. Base URL for public image access (e.g., https://cdn.example.com). If left empty, the bucket\'s R2 managed public domain will be used automatically.')
+			.setName('Upload on paste and drop')
+			.setDesc('Upload images pasted or dropped into a note straight away and insert the public URL. If the upload fails or you are offline, the image is saved to the vault as usual.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoUpload)
+				.onChange(async (value) => {
+					this.plugin.settings.autoUpload = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Parallel transfers')
+			.setDesc('How many uploads or downloads run at the same time.')
+			.addSlider(slider => slider
+				.setLimits(1, 8, 1)
+				.setDynamicTooltip()
+				.setValue(this.plugin.settings.concurrency)
+				.onChange(async (value) => {
+					this.plugin.settings.concurrency = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Automatic retries')
+			.setDesc('Retries after network errors, rate limiting (429) or server errors (5xx), waiting longer each time.')
+			.addSlider(slider => slider
+				.setLimits(0, 6, 1)
+				.setDynamicTooltip()
+				.setValue(this.plugin.settings.maxRetries)
+				.onChange(async (value) => {
+					this.plugin.settings.maxRetries = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.displaySecurity(containerEl);
+		this.displayProfiles(containerEl);
+
+		new Setting(containerEl).setName('Image optimisation').setHeading();
+
+		new Setting(containerEl)
+			.setName('Maximum width or height')
+			.setDesc('Scale images down so their longest side is at most this many pixels before uploading. 0 keeps the original size. SVG and GIF are never changed.')
 			.addText(text => text
-				.setPlaceholder('https://cdn.example.com')
-				.setValue(this.plugin.settings.customDomain)
+				.setPlaceholder('0')
+				.setValue(String(this.plugin.settings.maxImageDimension))
 				.onChange(async (value) => {
-					this.plugin.settings.customDomain = value.trim().replace(/\/$/, '');
+					const n = parseInt(value, 10);
+					this.plugin.settings.maxImageDimension = Number.isFinite(n) && n > 0 ? n : 0;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Quality')
+			.setDesc('Quality for re-encoded JPEG and WebP images.')
+			.addSlider(slider => slider
+				.setLimits(10, 100, 5)
+				.setDynamicTooltip()
+				.setValue(this.plugin.settings.imageQuality)
+				.onChange(async (value) => {
+					this.plugin.settings.imageQuality = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Convert PNG to WebP')
+			.setDesc('Usually much smaller for screenshots. The uploaded file gets a .webp extension.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.convertPngToWebp)
+				.onChange(async (value) => {
+					this.plugin.settings.convertPngToWebp = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Strip metadata')
+			.setDesc('Remove camera details and location data by re-encoding the image.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.stripMetadata)
+				.onChange(async (value) => {
+					this.plugin.settings.stripMetadata = value;
 					await this.plugin.saveSettings();
 				}));
 
-		containerEl.createEl('h2', {text: 'Records'});
+		new Setting(containerEl).setName('After upload').setHeading();
+
+		new Setting(containerEl)
+			.setName('Local originals')
+			.setDesc('What to do with an uploaded image once no note embeds it any more. You are asked to confirm before anything is removed, and the removal is recorded so the note can be reverted later.')
+			.addDropdown(dropdown => dropdown
+				.addOption('keep', 'Keep in vault')
+				.addOption('trash', 'Move to trash')
+				.addOption('archive', 'Move to archive folder')
+				.setValue(this.plugin.settings.originalsAfterUpload)
+				.onChange(async (value) => {
+					this.plugin.settings.originalsAfterUpload = value as OriginalsAction;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.originalsAfterUpload === 'archive') {
+			new Setting(containerEl)
+				.setName('Archive folder')
+				.setDesc('Vault folder uploaded originals are moved to. Exclude it from sync to save space.')
+				.addText(text => text
+					.setPlaceholder('Uploaded originals')
+					.setValue(this.plugin.settings.archiveFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.archiveFolder = value.trim().replace(/^\/+|\/+$/g, '');
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		this.displayLinkFormats(containerEl);
+
+		new Setting(containerEl).setName('Records').setHeading();
+
+		new Setting(containerEl)
+			.setName('History')
+			.setDesc('Browse, filter and export the upload and download records.')
+			.addButton(btn => btn
+				.setButtonText('Open history')
+				.onClick(() => { void this.plugin.activateHistoryView(); }));
 
 		new Setting(containerEl)
 			.setName('Records file')
-			.setDesc(`Upload and download history: ${RECORDS_PATH}`)
+			.setDesc(`Upload and download history: ${this.plugin.records.path}`)
 			.addButton(btn => btn
 				.setButtonText('Copy path')
 				.onClick(async () => {
-					const adapter = this.app.vault.adapter as any;
-					const abs = adapter.getBasePath
-						? `${adapter.getBasePath()}/${RECORDS_PATH}`
-						: RECORDS_PATH;
+					const adapter = this.app.vault.adapter;
+					const abs = adapter instanceof FileSystemAdapter
+						? adapter.getFullPath(this.plugin.records.path)
+						: this.plugin.records.path;
 					await navigator.clipboard.writeText(abs);
 					new Notice('Path copied to clipboard');
 				}))
@@ -97,15 +332,15 @@ export class ImagesR2SettingTab extends PluginSettingTab {
 				.setButtonText('Open')
 				.setCta()
 				.onClick(async () => {
-					const exists = await this.app.vault.adapter.exists(RECORDS_PATH);
+					const exists = await this.app.vault.adapter.exists(this.plugin.records.path);
 					if (!exists) {
 						new Notice('No records file yet — make an upload or download first.');
 						return;
 					}
-					(this.app as any).openWithDefaultApp(RECORDS_PATH);
+					await (this.app as unknown as DefaultApp).openWithDefaultApp(this.plugin.records.path);
 				}));
 
-		containerEl.createEl('h2', {text: 'Download'});
+		new Setting(containerEl).setName('Download').setHeading();
 
 		new Setting(containerEl)
 			.setName('Download folder')
@@ -118,4 +353,445 @@ export class ImagesR2SettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 	}
+
+	private displayConnectionTest(containerEl: HTMLElement) {
+		let results: HTMLElement;
+		new Setting(containerEl)
+			.setName('Test connection')
+			.setDesc('Checks the settings above by uploading a tiny test object, fetching it from the public URL and deleting it again.')
+			.addButton(btn => btn
+				.setButtonText('Test connection')
+				.onClick(async () => {
+					if (!await this.plugin.ensureUnlocked()) return;
+					btn.setDisabled(true);
+					results.empty();
+					const running = results.createDiv({cls: 'r2-check', text: 'Testing…'});
+					await testConnection(this.plugin, (result) => {
+						this.renderCheck(results, result);
+						results.appendChild(running);
+					});
+					running.remove();
+					btn.setDisabled(false);
+				}));
+		results = containerEl.createDiv('r2-checks');
+	}
+
+	private renderCheck(parent: HTMLElement, result: CheckResult) {
+		const row = parent.createDiv({cls: `r2-check r2-check-${result.status}`});
+		setIcon(row.createSpan('r2-check-icon'), CHECK_ICONS[result.status]);
+		const text = row.createDiv('r2-check-text');
+		text.createDiv({cls: 'r2-check-name', text: result.name});
+		text.createDiv({cls: 'r2-check-detail', text: result.detail});
+	}
+
+	private displayLinkFormats(containerEl: HTMLElement) {
+		const {settings} = this.plugin;
+		new Setting(containerEl).setName('Links').setHeading();
+		const tokens = `Tokens: ${LINK_TOKENS.map(t => `{${t}}`).join(', ')}. Text in {?…} is left out unless every token inside it has a value.`;
+
+		new Setting(containerEl)
+			.setName('Review link changes')
+			.setDesc('When uploading or downloading everything in the panel, show each link change as a before and after line first. Only the ones you tick are applied. Skipped downloads are moved to the trash. Skipped uploads stay in the bucket and are ticked for deletion by the orphan finder.')
+			.addToggle(toggle => toggle
+				.setValue(settings.reviewRewrites)
+				.onChange(async (value) => {
+					settings.reviewRewrites = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Uploaded link format')
+			.setDesc('How a local image is linked once uploaded. Automatic keeps <img> tags and their attributes, and writes markdown for everything else. A note can pick its own with r2-link-format in frontmatter.')
+			.addDropdown(dropdown => dropdown
+				.addOption('auto', 'Automatic')
+				.addOption('markdown', 'Markdown image')
+				.addOption('html', 'HTML <img>')
+				.addOption('custom', 'Custom template')
+				.setValue(settings.uploadLinkFormat)
+				.onChange(async (value) => {
+					settings.uploadLinkFormat = value as UploadLinkFormat;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (settings.uploadLinkFormat === 'custom') {
+			new Setting(containerEl)
+				.setName('Uploaded link template')
+				.setDesc(`${tokens} {url} is the public URL.`)
+				.addText(text => text
+					.setPlaceholder(UPLOAD_TEMPLATES.html)
+					.setValue(settings.uploadLinkTemplate)
+					.onChange(async (value) => {
+						settings.uploadLinkTemplate = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Downloaded link format')
+			.setDesc('How a remote image is linked once saved to the vault, or restored by a revert. Use Markdown paths for sites that do not understand wiki links.')
+			.addDropdown(dropdown => dropdown
+				.addOption('wiki', 'Wiki embed')
+				.addOption('markdown', 'Markdown with relative path')
+				.addOption('custom', 'Custom template')
+				.setValue(settings.downloadLinkFormat)
+				.onChange(async (value) => {
+					settings.downloadLinkFormat = value as DownloadLinkFormat;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (settings.downloadLinkFormat === 'custom') {
+			new Setting(containerEl)
+				.setName('Downloaded link template')
+				.setDesc(`${tokens} {url} is the path relative to the note and {link} the wiki link text.`)
+				.addText(text => text
+					.setPlaceholder(DOWNLOAD_TEMPLATES.markdown)
+					.setValue(settings.downloadLinkTemplate)
+					.onChange(async (value) => {
+						settings.downloadLinkTemplate = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+	}
+
+	// Secret inputs are masked, and read-only while the encrypted secrets are locked
+	private protectSecret(text: TextComponent) {
+		text.inputEl.type = 'password';
+		text.setDisabled(this.plugin.secrets.isLocked(this.plugin.settings));
+	}
+
+	private displaySecurity(containerEl: HTMLElement) {
+		const {secrets, settings} = this.plugin;
+		new Setting(containerEl).setName('Security').setHeading();
+
+		if (!secrets.isEncrypted(settings)) {
+			new Setting(containerEl)
+				.setName('Encrypt secrets')
+				.setDesc((hasPlaintextSecrets(settings) ? 'Your API token and other secrets are saved in plain text in the plugin\'s data.json, which syncs with the vault. ' : '') +
+					'Encrypt them with a passphrase you enter once per session. Uploads wait for the passphrase until then.')
+				.addButton(btn => btn
+					.setButtonText('Set passphrase')
+					.setCta()
+					.onClick(() => { void this.askPassphrase('Encrypt secrets'); }));
+			return;
+		}
+
+		if (secrets.isLocked(settings)) {
+			new Setting(containerEl)
+				.setName('Secrets are locked')
+				.setDesc('Unlock to upload or to edit the API token and other secrets.')
+				.addButton(btn => btn
+					.setButtonText('Unlock')
+					.setCta()
+					.onClick(async () => {
+						if (await this.plugin.ensureUnlocked()) this.display();
+					}));
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName('Secrets are encrypted')
+			.setDesc('Unlocked for this session.')
+			.addButton(btn => btn
+				.setButtonText('Lock now')
+				.onClick(() => {
+					secrets.lock(settings);
+					this.display();
+				}))
+			.addButton(btn => btn
+				.setButtonText('Change passphrase')
+				.onClick(() => { void this.askPassphrase('Change passphrase'); }))
+			.addButton(btn => btn
+				.setButtonText('Remove encryption')
+				.setWarning()
+				.onClick(async () => {
+					secrets.disable(settings);
+					await this.plugin.saveSettings();
+					new Notice('Secrets are saved in plain text again.');
+					this.display();
+				}));
+	}
+
+	// Encrypts the secrets currently in settings under a new passphrase
+	private async askPassphrase(title: string) {
+		const done = await new PassphraseModal(this.app, {
+			title,
+			description: 'Secrets are encrypted with AES-GCM under a key derived from this passphrase. It is never saved, and a forgotten passphrase cannot be recovered: you would have to enter the secrets again.',
+			confirm: true,
+			onSubmit: async (passphrase) => {
+				await this.plugin.secrets.enable(this.plugin.settings, passphrase);
+				await this.plugin.saveSettings();
+				return null;
+			},
+		}).ask();
+		if (done) this.display();
+	}
+
+	private async updateProfile(index: number, patch: Partial<BucketProfile>) {
+		const {settings} = this.plugin;
+		const previous = settings.profiles[index];
+		if (!previous) return;
+		settings.profiles = settings.profiles.map((p, i) => i === index ? {...p, ...patch} : p);
+		// Keep folder rules pointing at a renamed profile
+		if (patch.name !== undefined && patch.name !== previous.name) {
+			settings.profileRules = settings.profileRules.map(r => r.profile === previous.name ? {...r, profile: patch.name ?? ''} : r);
+		}
+		await this.plugin.saveSettings();
+	}
+
+	private displayProfiles(containerEl: HTMLElement) {
+		new Setting(containerEl).setName('Bucket profiles').setHeading();
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: `The settings above form the "${DEFAULT_PROFILE}" profile. Named profiles use another account, bucket or domain with the same backend. ` +
+				'The S3-compatible backend signs every profile\'s requests with the access key pair above, so it needs access to each bucket. ' +
+				`Notes are routed by the first matching folder rule, or by a "${PROFILE_FRONTMATTER_KEY}: <name>" frontmatter key, which wins over the rules.`,
+		});
+
+		const {profiles, profileRules} = this.plugin.settings;
+		// Sealed profile tokens are stored in profile order, so the list stays fixed until the secrets are unlocked
+		const locked = this.plugin.secrets.isLocked(this.plugin.settings);
+		if (locked) {
+			containerEl.createEl('p', {cls: 'setting-item-description', text: 'Unlock the secrets to add or remove profiles.'});
+		}
+		profiles.forEach((profile, index) => {
+			new Setting(containerEl)
+				.setName('Profile name')
+				.setClass('r2-profile-name')
+				.addText(text => {
+					text
+						.setPlaceholder('Work')
+						.setValue(profile.name)
+						.onChange(async (value) => {
+							const name = value.trim();
+							const taken = name === DEFAULT_PROFILE || this.plugin.settings.profiles.some((p, i) => i !== index && p.name === name);
+							text.inputEl.toggleClass('r2-input-invalid', !name || taken);
+							if (!name || taken) return;
+							await this.updateProfile(index, {name});
+						});
+					// Rule dropdowns list profile names, so redraw once editing is done
+					text.inputEl.addEventListener('blur', () => this.display());
+				})
+				.addExtraButton(btn => btn
+					.setIcon('trash-2')
+					.setTooltip('Remove profile')
+					.setDisabled(locked)
+					.onClick(async () => {
+						this.plugin.settings.profiles = profiles.filter((_, i) => i !== index);
+						this.plugin.settings.profileRules = profileRules.filter(r => r.profile !== profile.name);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			const field = (name: string, key: Exclude<keyof BucketProfile, 'name'>, placeholder: string, secret = false) => {
+				new Setting(containerEl)
+					.setName(name)
+					.setClass('r2-profile-field')
+					.addText(text => {
+						if (secret) this.protectSecret(text);
+						text
+							.setPlaceholder(placeholder)
+							.setValue(profile[key])
+							.onChange(async (value) => {
+								const trimmed = value.trim();
+								await this.updateProfile(index, {[key]: key === 'customDomain' ? trimmed.replace(/\/$/, '') : trimmed});
+							});
+					});
+			};
+			field('Account ID', 'accountId', 'xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx');
+			field('R2 API token', 'r2Token', 'Your R2 API token', true);
+			field('Bucket name', 'bucketName', 'my-images-bucket');
+			field('Custom domain', 'customDomain', 'https://cdn.example.com');
+		});
+
+		new Setting(containerEl)
+			.addButton(btn => btn
+				.setButtonText('Add profile')
+				.setDisabled(locked)
+				.onClick(async () => {
+					const {accountId, r2Token} = this.plugin.settings;
+					// Counting profiles would repeat a name once one in the middle was removed
+					const taken = new Set(this.plugin.settings.profiles.map(p => p.name));
+					let number = this.plugin.settings.profiles.length + 1;
+					while (taken.has(`profile-${number}`)) number++;
+					const name = `profile-${number}`;
+					this.plugin.settings.profiles = [...this.plugin.settings.profiles, {name, accountId, r2Token, bucketName: '', customDomain: ''}];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (profiles.length === 0) return;
+
+		new Setting(containerEl).setName('Folder rules').setHeading();
+		profileRules.forEach((rule, index) => {
+			const update = async (patch: Partial<ProfileRule>) => {
+				this.plugin.settings.profileRules = this.plugin.settings.profileRules.map((r, i) => i === index ? {...r, ...patch} : r);
+				await this.plugin.saveSettings();
+			};
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('Work/**')
+					.setValue(rule.folder)
+					.onChange(async (value) => { await update({folder: value.trim()}); }))
+				.addDropdown(dropdown => {
+					for (const p of profiles) if (p.name) dropdown.addOption(p.name, p.name);
+					dropdown
+						.setValue(rule.profile)
+						.onChange(async (value) => { await update({profile: value}); });
+				})
+				.addExtraButton(btn => btn
+					.setIcon('trash-2')
+					.setTooltip('Remove rule')
+					.onClick(async () => {
+						this.plugin.settings.profileRules = profileRules.filter((_, i) => i !== index);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.setDesc('Folder globs: * matches within a folder, ** across folders. A rule also covers every note in subfolders of what it matches.')
+			.addButton(btn => btn
+				.setButtonText('Add rule')
+				.onClick(async () => {
+					const profile = profiles.find(p => p.name)?.name ?? '';
+					this.plugin.settings.profileRules = [...profileRules, {folder: '', profile}];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	private displayBucketSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Account ID')
+			.setDesc('Your Cloudflare account ID')
+			.addText(text => text
+				.setPlaceholder('xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx')
+				.setValue(this.plugin.settings.accountId)
+				.onChange(async (value) => {
+					this.plugin.settings.accountId = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('R2 API token')
+			.setDesc(this.plugin.settings.backend === 's3'
+				? 'Optional with the S3 backend. Only used to look up the bucket\'s managed r2.dev domain.'
+				: 'Cloudflare R2 API Token (requires Workers R2 Storage: Edit permission)')
+			.addText(text => {
+				this.protectSecret(text);
+				text
+					.setPlaceholder('Your R2 API token')
+					.setValue(this.plugin.settings.r2Token)
+					.onChange(async (value) => {
+						this.plugin.settings.r2Token = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		if (this.plugin.settings.backend === 's3') this.displayS3Settings(containerEl);
+
+		new Setting(containerEl)
+			.setName('Bucket name')
+			.setDesc('The R2 bucket to upload images to')
+			.addText(text => text
+				.setPlaceholder('my-images-bucket')
+				.setValue(this.plugin.settings.bucketName)
+				.onChange(async (value) => {
+					this.plugin.settings.bucketName = value.trim();
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private displayS3Settings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('S3 endpoint')
+			.setDesc('Leave empty to use the R2 endpoint for your account ID. For MinIO, e.g. http://localhost:9000.')
+			.addText(text => text
+				.setPlaceholder('https://<account-id>.r2.cloudflarestorage.com')
+				.setValue(this.plugin.settings.s3Endpoint)
+				.onChange(async (value) => {
+					this.plugin.settings.s3Endpoint = value.trim().replace(/\/$/, '');
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('S3 region')
+			.setDesc('Signing region. R2 accepts auto; most other servers expect us-east-1.')
+			.addText(text => text
+				.setValue(this.plugin.settings.s3Region)
+				.onChange(async (value) => {
+					this.plugin.settings.s3Region = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Access key ID')
+			.addText(text => text
+				.setValue(this.plugin.settings.s3AccessKeyId)
+				.onChange(async (value) => {
+					this.plugin.settings.s3AccessKeyId = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Secret access key')
+			.addText(text => {
+				this.protectSecret(text);
+				text
+					.setValue(this.plugin.settings.s3SecretAccessKey)
+					.onChange(async (value) => {
+						this.plugin.settings.s3SecretAccessKey = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private displayLocalSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Local folder')
+			.setDesc('Folder to copy images into (path relative to vault root), such as the static directory of a site published from this vault.')
+			.addText(text => text
+				.setPlaceholder('site/static/images')
+				.setValue(this.plugin.settings.localFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.localFolder = value.trim().replace(/\/$/, '');
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private displayWebDavSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('WebDAV URL')
+			.setDesc('Collection URL to upload into. Also used as the public base URL unless a custom domain is set.')
+			.addText(text => text
+				.setPlaceholder('https://dav.example.com/images')
+				.setValue(this.plugin.settings.webdavUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.webdavUrl = value.trim().replace(/\/$/, '');
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('WebDAV username')
+			.addText(text => text
+				.setValue(this.plugin.settings.webdavUsername)
+				.onChange(async (value) => {
+					this.plugin.settings.webdavUsername = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('WebDAV password')
+			.addText(text => {
+				this.protectSecret(text);
+				text
+					.setValue(this.plugin.settings.webdavPassword)
+					.onChange(async (value) => {
+						this.plugin.settings.webdavPassword = value;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
 }
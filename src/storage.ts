@@ -0,0 +1,501 @@
+import {App, normalizePath, requestUrl} from 'obsidian';
+import type {ImagesR2Settings, UploadBackend} from './settings';
+import {S3Client, isR2Endpoint, r2Endpoint, s3ErrorMessage} from './s3';
+import {encodeKey} from './keys';
+import {isRetryableStatus} from './queue';
+
+// retryable marks network errors and 429/5xx responses, which the transfer queue retries
+export type PutResult = {success: true} | {success: false; error: string; retryable?: boolean};
+
+export interface ListedObject {
+	key: string;
+	size: number;
+	lastModified: string;   // ISO 8601, '' when the backend does not say
+}
+
+export interface ListPage {
+	objects: ListedObject[];
+	prefixes: string[];      // "folders" directly under the listed prefix, each ending in '/'
+	cursor: string | null;   // pass back for the next page; null on the last page
+}
+
+export type ListResult = {success: true; page: ListPage} | {success: false; error: string};
+
+export const LIST_PAGE_SIZE = 100;
+
+// Where uploaded images live and how their public URLs are formed
+export interface StorageProvider {
+	readonly id: UploadBackend;
+	isConfigured(): boolean;
+	// Base URL that object keys are appended to, or null when none can be determined
+	resolveBaseUrl(): Promise<string | null>;
+	// What to change in settings when resolveBaseUrl finds nothing
+	missingUrlHint(): string;
+	exists(key: string, publicUrl: string): Promise<boolean>;
+	put(key: string, body: ArrayBuffer, mimeType: string): Promise<PutResult>;
+	// One level of objects under a prefix; absent for backends that cannot list
+	list?(prefix: string, cursor: string | null): Promise<ListResult>;
+	delete(key: string): Promise<PutResult>;
+}
+
+// Every object in the store, walking each prefix and page in turn
+export async function listAllObjects(storage: StorageProvider): Promise<ListResult> {
+	if (!storage.list) return {success: false, error: 'This upload backend cannot list its objects.'};
+	const objects: ListedObject[] = [];
+	const prefixes = [''];
+	for (let prefix = prefixes.shift(); prefix !== undefined; prefix = prefixes.shift()) {
+		let cursor: string | null = null;
+		do {
+			const result = await storage.list(prefix, cursor);
+			if (!result.success) return result;
+			objects.push(...result.page.objects);
+			prefixes.push(...result.page.prefixes);
+			cursor = result.page.cursor;
+		} while (cursor);
+	}
+	return {success: true, page: {objects, prefixes: [], cursor: null}};
+}
+
+async function publicUrlExists(publicUrl: string): Promise<boolean> {
+	try {
+		const response = await requestUrl({url: publicUrl, method: 'HEAD', throw: false});
+		return response.status === 200;
+	} catch {
+		return false;
+	}
+}
+
+export interface ManagedDomain {
+	url: string;        // https://pub-….r2.dev
+	enabled: boolean;   // public access through r2.dev is switched on
+}
+
+export async function fetchManagedDomainInfo(accountId: string, r2Token: string, bucketName: string): Promise<ManagedDomain | null> {
+	try {
+		const response = await requestUrl({
+			url: `https://api.cloudflare.com/client/v4/accounts/${accountId}/r2/buckets/${bucketName}/domains/managed`,
+			method: 'GET',
+			headers: {'Authorization': `Bearer ${r2Token}`},
+			throw: false,
+		});
+		if (response.status !== 200) return null;
+		const {result} = response.json as {result?: {domain?: string; enabled?: boolean}};
+		return result?.domain ? {url: `https://${result.domain}`, enabled: !!result.enabled} : null;
+	} catch {
+		return null;
+	}
+}
+
+async function fetchManagedDomain(accountId: string, r2Token: string, bucketName: string): Promise<string | null> {
+	return (await fetchManagedDomainInfo(accountId, r2Token, bucketName))?.url ?? null;
+}
+
+// ── Cloudflare REST API (bearer token) ───────────────────
+interface CloudflareResponse {
+	success: boolean;
+	errors?: {message: string}[];
+}
+
+interface CloudflareListResponse extends CloudflareResponse {
+	result?: {key: string; size: number; last_modified?: string}[];
+	result_info?: {cursor?: string; is_truncated?: boolean; delimited?: string[]};
+}
+
+export class CloudflareApiProvider implements StorageProvider {
+	readonly id = 'cloudflare-api';
+	private settings: ImagesR2Settings;
+
+	constructor(settings: ImagesR2Settings) {
+		this.settings = settings;
+	}
+
+	isConfigured(): boolean {
+		const {accountId, r2Token, bucketName} = this.settings;
+		return !!accountId && !!r2Token && !!bucketName;
+	}
+
+	async resolveBaseUrl(): Promise<string | null> {
+		const {accountId, r2Token, bucketName, customDomain} = this.settings;
+		if (customDomain) return customDomain;
+		if (!accountId || !r2Token || !bucketName) return null;
+		return fetchManagedDomain(accountId, r2Token, bucketName);
+	}
+
+	missingUrlHint(): string {
+		return 'No public URL. Enable the bucket\'s managed domain or set a Custom Domain in settings.';
+	}
+
+	exists(_key: string, publicUrl: string): Promise<boolean> {
+		return publicUrlExists(publicUrl);
+	}
+
+	async put(key: string, body: ArrayBuffer, mimeType: string): Promise<PutResult> {
+		const {accountId, r2Token, bucketName} = this.settings;
+		let response;
+		try {
+			response = await requestUrl({
+				url: `https://api.cloudflare.com/client/v4/accounts/${accountId}/r2/buckets/${bucketName}/objects/${encodeURIComponent(key)}`,
+				method: 'PUT',
+				headers: {
+					'Authorization': `Bearer ${r2Token}`,
+					'Content-Type': mimeType,
+				},
+				body,
+				throw: false,
+			});
+		} catch (networkErr) {
+			return {success: false, error: (networkErr as Error).message, retryable: true};
+		}
+
+		if (response.status !== 200) {
+			let errMsg = `HTTP ${response.status}`;
+			try { errMsg = (response.json as CloudflareResponse | null)?.errors?.[0]?.message ?? errMsg; } catch { /* not JSON */ }
+			return {success: false, error: errMsg, retryable: isRetryableStatus(response.status)};
+		}
+
+		let data: CloudflareResponse | null;
+		try { data = response.json as CloudflareResponse | null; } catch {
+			return {success: false, error: 'Invalid response'};
+		}
+
+		if (!data?.success) {
+			return {success: false, error: data?.errors?.[0]?.message ?? 'Unknown error'};
+		}
+		return {success: true};
+	}
+
+	async delete(key: string): Promise<PutResult> {
+		const {accountId, r2Token, bucketName} = this.settings;
+		let response;
+		try {
+			response = await requestUrl({
+				url: `https://api.cloudflare.com/client/v4/accounts/${accountId}/r2/buckets/${bucketName}/objects/${encodeURIComponent(key)}`,
+				method: 'DELETE',
+				headers: {'Authorization': `Bearer ${r2Token}`},
+				throw: false,
+			});
+		} catch (networkErr) {
+			return {success: false, error: (networkErr as Error).message, retryable: true};
+		}
+		if (response.status !== 200) {
+			return {success: false, error: `HTTP ${response.status}`, retryable: isRetryableStatus(response.status)};
+		}
+		return {success: true};
+	}
+
+	async list(prefix: string, cursor: string | null): Promise<ListResult> {
+		const {accountId, r2Token, bucketName} = this.settings;
+		const params = new URLSearchParams({prefix, delimiter: '/', per_page: String(LIST_PAGE_SIZE)});
+		if (cursor) params.set('cursor', cursor);
+		let response;
+		try {
+			response = await requestUrl({
+				url: `https://api.cloudflare.com/client/v4/accounts/${accountId}/r2/buckets/${bucketName}/objects?${params.toString()}`,
+				method: 'GET',
+				headers: {'Authorization': `Bearer ${r2Token}`},
+				throw: false,
+			});
+		} catch (networkErr) {
+			return {success: false, error: (networkErr as Error).message};
+		}
+		let data: CloudflareListResponse;
+		try { data = response.json as CloudflareListResponse; } catch {
+			return {success: false, error: `HTTP ${response.status}`};
+		}
+		if (response.status !== 200 || !data?.success) {
+			return {success: false, error: data?.errors?.[0]?.message ?? `HTTP ${response.status}`};
+		}
+		const info = data.result_info ?? {};
+		return {success: true, page: {
+			objects: (data.result ?? []).map(o => ({key: o.key, size: o.size, lastModified: o.last_modified ?? ''})),
+			prefixes: info.delimited ?? [],
+			cursor: info.is_truncated ? (info.cursor ?? null) : null,
+		}};
+	}
+}
+
+// ── S3-compatible (SigV4): R2's S3 endpoint, MinIO, … ────
+export class S3Provider implements StorageProvider {
+	readonly id = 's3';
+	private settings: ImagesR2Settings;
+
+	constructor(settings: ImagesR2Settings) {
+		this.settings = settings;
+	}
+
+	client(): S3Client {
+		const {accountId, bucketName, s3Endpoint, s3Region, s3AccessKeyId, s3SecretAccessKey} = this.settings;
+		return new S3Client({
+			endpoint: s3Endpoint || r2Endpoint(accountId),
+			region: s3Region || 'auto',
+			bucket: bucketName,
+			accessKeyId: s3AccessKeyId,
+			secretAccessKey: s3SecretAccessKey,
+		});
+	}
+
+	isConfigured(): boolean {
+		const {accountId, bucketName, s3Endpoint, s3AccessKeyId, s3SecretAccessKey} = this.settings;
+		return !!bucketName && !!(s3Endpoint || accountId) && !!s3AccessKeyId && !!s3SecretAccessKey;
+	}
+
+	async resolveBaseUrl(): Promise<string | null> {
+		const {accountId, r2Token, bucketName, customDomain, s3Endpoint} = this.settings;
+		if (customDomain) return customDomain;
+		// Non-R2 S3 servers (e.g. MinIO) serve public buckets path-style from the endpoint itself
+		if (s3Endpoint && !isR2Endpoint(s3Endpoint) && bucketName) {
+			return `${s3Endpoint.replace(/\/+$/, '')}/${encodeURIComponent(bucketName)}`;
+		}
+		if (!accountId || !r2Token || !bucketName) return null;
+		return fetchManagedDomain(accountId, r2Token, bucketName);
+	}
+
+	missingUrlHint(): string {
+		return 'No public URL. Set a Custom Domain in settings, or an account ID and API token to look up the R2 managed domain.';
+	}
+
+	async exists(key: string): Promise<boolean> {
+		try {
+			const response = await this.client().headObject(key);
+			return response.status === 200;
+		} catch {
+			return false;
+		}
+	}
+
+	async put(key: string, body: ArrayBuffer, mimeType: string): Promise<PutResult> {
+		let response;
+		try {
+			response = await this.client().putObject(key, body, mimeType);
+		} catch (networkErr) {
+			return {success: false, error: (networkErr as Error).message, retryable: true};
+		}
+		if (response.status !== 200) {
+			return {success: false, error: s3ErrorMessage(response), retryable: isRetryableStatus(response.status)};
+		}
+		return {success: true};
+	}
+
+	async delete(key: string): Promise<PutResult> {
+		let response;
+		try {
+			response = await this.client().deleteObject(key);
+		} catch (networkErr) {
+			return {success: false, error: (networkErr as Error).message, retryable: true};
+		}
+		// S3 answers 204 whether or not the object existed
+		if (response.status !== 204 && response.status !== 200) {
+			return {success: false, error: s3ErrorMessage(response), retryable: isRetryableStatus(response.status)};
+		}
+		return {success: true};
+	}
+
+	async list(prefix: string, cursor: string | null): Promise<ListResult> {
+		let response;
+		try {
+			response = await this.client().listObjects(prefix, '/', cursor, LIST_PAGE_SIZE);
+		} catch (networkErr) {
+			return {success: false, error: (networkErr as Error).message};
+		}
+		if (response.status !== 200) return {success: false, error: s3ErrorMessage(response)};
+
+		const doc = new DOMParser().parseFromString(response.text, 'application/xml');
+		const text = (parent: Element, tag: string) => parent.getElementsByTagName(tag)[0]?.textContent ?? '';
+		return {success: true, page: {
+			objects: Array.from(doc.getElementsByTagName('Contents')).map(el => ({
+				key: text(el, 'Key'),
+				size: Number(text(el, 'Size')) || 0,
+				lastModified: text(el, 'LastModified'),
+			})),
+			prefixes: Array.from(doc.getElementsByTagName('CommonPrefixes')).map(el => text(el, 'Prefix')),
+			cursor: text(doc.documentElement, 'IsTruncated') === 'true' ? text(doc.documentElement, 'NextContinuationToken') : null,
+		}};
+	}
+}
+
+// ── Local folder / static site directory in the vault ──
+export class LocalFolderProvider implements StorageProvider {
+	readonly id = 'local';
+	private app: App;
+	private settings: ImagesR2Settings;
+
+	constructor(app: App, settings: ImagesR2Settings) {
+		this.app = app;
+		this.settings = settings;
+	}
+
+	private pathFor(key: string): string {
+		return normalizePath(`${this.settings.localFolder}/${key}`);
+	}
+
+	isConfigured(): boolean {
+		return !!this.settings.localFolder && !!this.settings.customDomain;
+	}
+
+	// The folder is only reachable through whatever site serves it
+	async resolveBaseUrl(): Promise<string | null> {
+		return this.settings.customDomain || null;
+	}
+
+	missingUrlHint(): string {
+		return 'No public URL. Set a Custom Domain in settings pointing at where the local folder is served.';
+	}
+
+	async exists(key: string): Promise<boolean> {
+		return this.app.vault.adapter.exists(this.pathFor(key));
+	}
+
+	async put(key: string, body: ArrayBuffer): Promise<PutResult> {
+		try {
+			const target = this.pathFor(key);
+			const folder = target.slice(0, target.lastIndexOf('/'));
+			if (folder && !await this.app.vault.adapter.exists(folder)) {
+				await this.app.vault.adapter.mkdir(folder);
+			}
+			await this.app.vault.adapter.writeBinary(target, body);
+			return {success: true};
+		} catch (err) {
+			return {success: false, error: (err as Error).message};
+		}
+	}
+
+	async delete(key: string): Promise<PutResult> {
+		try {
+			const target = this.pathFor(key);
+			if (await this.app.vault.adapter.exists(target)) await this.app.vault.adapter.remove(target);
+			return {success: true};
+		} catch (err) {
+			return {success: false, error: (err as Error).message};
+		}
+	}
+
+	// A folder lists in one go, so there is never a next page
+	async list(prefix: string): Promise<ListResult> {
+		const root = normalizePath(this.settings.localFolder);
+		const folder = prefix ? this.pathFor(prefix) : root;
+		try {
+			const {adapter} = this.app.vault;
+			const listed = await adapter.list(folder);
+			const keyOf = (path: string) => path.slice(root.length + 1);
+			const objects: ListedObject[] = [];
+			for (const path of listed.files) {
+				const stat = await adapter.stat(path);
+				objects.push({key: keyOf(path), size: stat?.size ?? 0, lastModified: stat ? new Date(stat.mtime).toISOString() : ''});
+			}
+			return {success: true, page: {objects, prefixes: listed.folders.map(f => `${keyOf(f)}/`), cursor: null}};
+		} catch (err) {
+			return {success: false, error: (err as Error).message};
+		}
+	}
+}
+
+// ── WebDAV (basic auth) ──────────────────────────────────
+export class WebDavProvider implements StorageProvider {
+	readonly id = 'webdav';
+	private settings: ImagesR2Settings;
+
+	constructor(settings: ImagesR2Settings) {
+		this.settings = settings;
+	}
+
+	private get rootUrl(): string {
+		return this.settings.webdavUrl.replace(/\/+$/, '');
+	}
+
+	private authHeaders(): Record<string, string> {
+		const {webdavUsername, webdavPassword} = this.settings;
+		if (!webdavUsername) return {};
+		const bytes = new TextEncoder().encode(`${webdavUsername}:${webdavPassword}`);
+		const credentials = btoa(String.fromCharCode(...Array.from(bytes)));
+		return {'Authorization': `Basic ${credentials}`};
+	}
+
+	isConfigured(): boolean {
+		return !!this.settings.webdavUrl;
+	}
+
+	async resolveBaseUrl(): Promise<string | null> {
+		return this.settings.customDomain || this.rootUrl || null;
+	}
+
+	missingUrlHint(): string {
+		return 'No public URL. Set the WebDAV URL or a Custom Domain in settings.';
+	}
+
+	async exists(key: string): Promise<boolean> {
+		try {
+			const response = await requestUrl({
+				url: `${this.rootUrl}/${encodeKey(key)}`,
+				method: 'HEAD',
+				headers: this.authHeaders(),
+				throw: false,
+			});
+			return response.status === 200;
+		} catch {
+			return false;
+		}
+	}
+
+	// WebDAV does not create intermediate collections on PUT
+	private async ensureCollections(key: string) {
+		const folders = key.split('/').slice(0, -1);
+		let current = '';
+		for (const folder of folders) {
+			current = current ? `${current}/${folder}` : folder;
+			// 405 means the collection already exists
+			await requestUrl({
+				url: `${this.rootUrl}/${encodeKey(current)}/`,
+				method: 'MKCOL',
+				headers: this.authHeaders(),
+				throw: false,
+			});
+		}
+	}
+
+	async put(key: string, body: ArrayBuffer, mimeType: string): Promise<PutResult> {
+		let response;
+		try {
+			await this.ensureCollections(key);
+			response = await requestUrl({
+				url: `${this.rootUrl}/${encodeKey(key)}`,
+				method: 'PUT',
+				headers: {...this.authHeaders(), 'Content-Type': mimeType},
+				body,
+				throw: false,
+			});
+		} catch (networkErr) {
+			return {success: false, error: (networkErr as Error).message, retryable: true};
+		}
+		if (response.status < 200 || response.status >= 300) {
+			return {success: false, error: `HTTP ${response.status}`, retryable: isRetryableStatus(response.status)};
+		}
+		return {success: true};
+	}
+
+	async delete(key: string): Promise<PutResult> {
+		let response;
+		try {
+			response = await requestUrl({
+				url: `${this.rootUrl}/${encodeKey(key)}`,
+				method: 'DELETE',
+				headers: this.authHeaders(),
+				throw: false,
+			});
+		} catch (networkErr) {
+			return {success: false, error: (networkErr as Error).message, retryable: true};
+		}
+		if ((response.status < 200 || response.status >= 300) && response.status !== 404) {
+			return {success: false, error: `HTTP ${response.status}`, retryable: isRetryableStatus(response.status)};
+		}
+		return {success: true};
+	}
+}
+
+export function createStorageProvider(app: App, settings: ImagesR2Settings): StorageProvider {
+	switch (settings.backend) {
+		case 's3': return new S3Provider(settings);
+		case 'local': return new LocalFolderProvider(app, settings);
+		case 'webdav': return new WebDavProvider(settings);
+		default: return new CloudflareApiProvider(settings);
+	}
+}
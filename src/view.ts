@@ -1,29 +1,68 @@
 import {ItemView, MarkdownView, Notice, TFile, WorkspaceLeaf, requestUrl, setIcon, setTooltip} from 'obsidian';
 import ImagesR2Plugin from './main';
+import {LocalEmbed, RemoteEmbed, findEmbedOffsets, findLocalEmbeds, findRemoteEmbeds} from './embeds';
+import {ENABLED_KEY} from './frontmatter';
+import {findEditorForFile, rewriteEmbeds} from './rewrite';
+import {TransferOutcome, isRetryableStatus} from './queue';
+import {ensureFolder, uniquePath} from './files';
+import {revertNotes} from './revert';
+import {removeOriginals} from './originals';
+import {AffectedNotesModal, EmbeddingNote, findEmbeddingNotes} from './backlinks';
+import {LINK_STATUS_LABELS, LinkHealth, findReuploadable, reupload} from './linkcheck';
+import {ProposedChange, lineOf, reviewChanges} from './review';
+import type {UploadSuccess} from './main';
 
 export const VIEW_TYPE_R2 = 'r2-uploader';
 
-type ItemStatus = 'idle' | 'uploading' | 'done' | 'failed';
+// review: transferred, with the link change waiting in the review modal
+type ItemStatus = 'idle' | 'queued' | 'uploading' | 'review' | 'done' | 'failed';
 
 interface ImageItem {
-	fullMatch: string;   // ![[image.png]]
+	fullMatch: string;   // ![[image.png]], ![alt](image.png) or <img src="image.png">
 	imagePath: string;   // image.png
 	fileName: string;    // resolved filename
 	file: TFile | null;
+	embed: LocalEmbed;
 	status: ItemStatus;
 	line: number;        // 0-based line number in the source file
+	lines: number[];     // line of every occurrence, for reviewing each one
+	jobId?: string;      // transfer queue job while queued or uploading
 	error?: string;
 }
 
+// Vault#getConfig is not part of the public API
+interface VaultConfig {
+	getConfig(key: string): string | undefined;
+}
+
+// Other notes embedding the same image, rewritten along with the current note
+type AlsoIn = EmbeddingNote[];
+
+// A link change held back for review; the follow-up runs once it is applied or skipped
+interface HeldRewrite {
+	change: ProposedChange;
+	onApplied: () => void;
+	onSkipped: () => Promise<void>;
+}
+
 interface RemoteImageItem {
-	fullMatch: string;   // ![alt](url)
+	fullMatch: string;   // ![alt](url) or <img src="url">
+	embed: RemoteEmbed;
 	altText: string;
 	url: string;
 	fileName: string;    // derived from URL
 	isR2: boolean;       // hosted on the configured R2 bucket
 	status: ItemStatus;
 	line: number;
+	lines: number[];
+	jobId?: string;
 	error?: string;
+	health?: LinkHealth | 'checking';
+	reuploadable?: boolean;   // broken, but we uploaded it and the local original survives
+}
+
+function isBusy(status: ItemStatus): boolean {
+	return status === 'queued' || status === 'uploading';
 }
 
 export class R2UploaderView extends ItemView {
@@ -32,6 +71,8 @@ export class R2UploaderView extends ItemView {
 	private remoteItems: RemoteImageItem[] = [];
 	private currentFilePath: string | null = null;
 	private refreshTimer: number | null = null;
+	private progressEl: HTMLElement | null = null;
+	private cancelAllBtn: HTMLElement | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: ImagesR2Plugin) {
 		super(leaf);
@@ -45,17 +86,19 @@ export class R2UploaderView extends ItemView {
 	async onOpen() {
 		this.registerEvent(
 			this.app.workspace.on('file-open', (file: TFile | null) => {
-				this.refreshForFile(file);
+				void this.refreshForFile(file);
 			})
 		);
 		this.registerEvent(
 			this.app.workspace.on('editor-change', () => {
-				if (this.items.some(i => i.status === 'uploading') ||
-					this.remoteItems.some(i => i.status === 'uploading')) return;
+				// Rebuilding would detach the items that running transfers and open reviews update
+				if (this.items.some(i => isBusy(i.status) || i.status === 'review') ||
+					this.remoteItems.some(i => isBusy(i.status) || i.status === 'review')) return;
 				if (this.refreshTimer) window.clearTimeout(this.refreshTimer);
 				this.refreshTimer = window.setTimeout(() => this.refreshFromEditor(), 800);
 			})
 		);
+		this.register(this.plugin.transfers.onChange(() => this.updateProgress()));
 		await this.refresh();
 	}
 
@@ -116,13 +159,14 @@ export class R2UploaderView extends ItemView {
 		const fileChanged = file.path !== this.currentFilePath;
 		this.currentFilePath = file.path;
 
-		// ── Local images: ![[image.ext]] ────────────────────
-		const localRegex = /!\[\[([^\]]+\.(png|jpg|jpeg|gif|webp|svg|bmp|ico|tiff|tif))\]\]/gi;
-		const seenLocal = new Set<string>();
-		const localMatches = [...content.matchAll(localRegex)].filter(m => {
-			if (seenLocal.has(m[0])) return false;
-			seenLocal.add(m[0]);
-			return true;
+		// ── Local images: ![[image.ext]], ![](image.ext), <img src> ──
+		const localLines = new Map<string, number[]>();
+		const localMatches = findLocalEmbeds(content).filter(m => {
+			const lines = localLines.get(m.fullMatch);
+			const line = lineOf(content, m.index);
+			if (lines) lines.push(line);
+			else localLines.set(m.fullMatch, [line]);
+			return !lines;
 		});
 
 		const existingLocalMap = fileChanged
@@ -130,28 +174,31 @@ export class R2UploaderView extends ItemView {
 			: new Map(this.items.map(i => [i.fullMatch, i]));
 
 		this.items = localMatches.map(m => {
-			const line = content.substring(0, m.index ?? 0).split('\n').length - 1;
-			const existing = existingLocalMap.get(m[0]);
-			if (existing) return {...existing, line};
-			const imagePath = m[1] ?? '';
-			const resolvedFile = this.plugin.resolveImageFile(imagePath, file);
+			const lines = localLines.get(m.fullMatch) ?? [];
+			const line = lines[0] ?? 0;
+			const existing = existingLocalMap.get(m.fullMatch);
+			if (existing) return {...existing, line, lines};
+			const resolvedFile = this.plugin.resolveImageFile(m.imagePath, file);
 			return {
-				fullMatch: m[0],
-				imagePath,
-				fileName: resolvedFile?.name ?? imagePath,
+				fullMatch: m.fullMatch,
+				imagePath: m.imagePath,
+				fileName: resolvedFile?.name ?? m.imagePath,
 				file: resolvedFile,
+				embed: m,
 				status: 'idle' as ItemStatus,
 				line,
+				lines,
 			};
 		});
 
-		// ── Remote images: ![alt](https://...) ──────────────
-		const remoteRegex = /!\[([^\]]*)\]\((https?:\/\/[^)\s]+)\)/gi;
-		const seenRemote = new Set<string>();
-		const remoteMatches = [...content.matchAll(remoteRegex)].filter(m => {
-			if (seenRemote.has(m[0])) return false;
-			seenRemote.add(m[0]);
-			return true;
+		// ── Remote images: ![alt](https://...) and <img> ─────
+		const remoteLines = new Map<string, number[]>();
+		const remoteMatches = findRemoteEmbeds(content).filter(m => {
+			const lines = remoteLines.get(m.fullMatch);
+			const line = lineOf(content, m.index);
+			if (lines) lines.push(line);
+			else remoteLines.set(m.fullMatch, [line]);
+			return !lines;
 		});
 
 		const existingRemoteMap = fileChanged
@@ -159,26 +206,28 @@ export class R2UploaderView extends ItemView {
 			: new Map(this.remoteItems.map(i => [i.fullMatch, i]));
 
 		this.remoteItems = remoteMatches.map(m => {
-			const line = content.substring(0, m.index ?? 0).split('\n').length - 1;
-			const existing = existingRemoteMap.get(m[0]);
-			if (existing) return {...existing, line};
-			const altText = m[1] ?? '';
-			const url = m[2] ?? '';
+			const lines = remoteLines.get(m.fullMatch) ?? [];
+			const line = lines[0] ?? 0;
+			const existing = existingRemoteMap.get(m.fullMatch);
+			if (existing) return {...existing, line, lines};
 			return {
-				fullMatch: m[0],
-				altText,
-				url,
-				fileName: this.fileNameFromUrl(url),
-				isR2: this.isR2Url(url),
+				fullMatch: m.fullMatch,
+				embed: m,
+				altText: m.alt,
+				url: m.url,
+				fileName: this.fileNameFromUrl(m.url),
+				isR2: this.isR2Url(m.url),
 				status: 'idle' as ItemStatus,
 				line,
+				lines,
 			};
 		});
 	}
 
 	private isR2Url(url: string): boolean {
-		const {customDomain} = this.plugin.settings;
-		if (customDomain && url.startsWith(customDomain)) return true;
+		const {customDomain, profiles} = this.plugin.settings;
+		const domains = [customDomain, ...profiles.map(p => p.customDomain)].filter(Boolean);
+		if (domains.some(domain => url.startsWith(domain))) return true;
 		return /https?:\/\/[^/]+\.r2\.dev\//i.test(url);
 	}
 
@@ -204,7 +253,7 @@ export class R2UploaderView extends ItemView {
 		//   ''  or '.'  → same folder as the current file
 		//   './sub'     → subfolder relative to current file
 		//   'abs/path'  → absolute path from vault root
-		const cfg = (this.app.vault as any).getConfig('attachmentFolderPath') as string ?? '';
+		const cfg = (this.app.vault as unknown as VaultConfig).getConfig('attachmentFolderPath') ?? '';
 		if (!cfg || cfg === '.' || cfg === './') {
 			return activeFile.parent?.path ?? '';
 		}
@@ -216,27 +265,6 @@ export class R2UploaderView extends ItemView {
 		return cfg;
 	}
 
-	private async ensureFolder(folderPath: string) {
-		if (!folderPath) return;
-		const parts = folderPath.split('/');
-		let current = '';
-		for (const part of parts) {
-			current = current ? `${current}/${part}` : part;
-			if (!this.app.vault.getAbstractFileByPath(current)) {
-				try { await this.app.vault.createFolder(current); } catch { /* already exists */ }
-			}
-		}
-	}
-
-	private async uniquePath(path: string): Promise<string> {
-		if (!this.app.vault.getAbstractFileByPath(path)) return path;
-		const lastDot = path.lastIndexOf('.');
-		const base = lastDot >= 0 ? path.slice(0, lastDot) : path;
-		const ext = lastDot >= 0 ? path.slice(lastDot) : '';
-		const uid = crypto.randomUUID().slice(0, 8);
-		return `${base}-${uid}${ext}`;
-	}
-
 	private render(activeFile: TFile | null) {
 		const el = this.contentEl;
 		el.empty();
@@ -253,27 +281,71 @@ export class R2UploaderView extends ItemView {
 		setIcon(downloadAllBtn, 'download');
 		setTooltip(downloadAllBtn, 'Download all remote');
 
+		const checkBtn = navButtons.createDiv({cls: 'clickable-icon nav-action-button'});
+		setIcon(checkBtn, 'activity');
+		setTooltip(checkBtn, 'Check remote links');
+
+		const revertBtn = navButtons.createDiv({cls: 'clickable-icon nav-action-button'});
+		setIcon(revertBtn, 'undo-2');
+		setTooltip(revertBtn, 'Revert to local');
+
 		const refreshBtn = navButtons.createDiv({cls: 'clickable-icon nav-action-button'});
 		setIcon(refreshBtn, 'refresh-cw');
 		setTooltip(refreshBtn, 'Refresh');
-		refreshBtn.addEventListener('click', () => this.refresh());
+		refreshBtn.addEventListener('click', () => { void this.refresh(); });
+
+		this.cancelAllBtn = navButtons.createDiv({cls: 'clickable-icon nav-action-button'});
+		setIcon(this.cancelAllBtn, 'x-circle');
+		setTooltip(this.cancelAllBtn, 'Cancel all transfers');
+		this.cancelAllBtn.addEventListener('click', () => this.plugin.transfers.cancelAll());
+		this.progressEl = navHeader.createDiv('r2-queue-progress');
+		this.updateProgress();
 
 		if (!activeFile) {
 			uploadAllBtn.addClass('is-disabled');
 			downloadAllBtn.addClass('is-disabled');
+			revertBtn.addClass('is-disabled');
+			checkBtn.addClass('is-disabled');
 			const empty = el.createDiv('r2-empty');
 			setIcon(empty.createSpan('r2-empty-icon'), 'image');
 			empty.createSpan({cls: 'r2-empty-text', text: 'Open a markdown file to see images.'});
 			return;
 		}
 
+		if (!this.plugin.noteOptions(activeFile).enabled) {
+			for (const btn of [uploadAllBtn, downloadAllBtn, revertBtn, checkBtn]) btn.addClass('is-disabled');
+			const empty = el.createDiv('r2-empty');
+			setIcon(empty.createSpan('r2-empty-icon'), 'eye-off');
+			empty.createSpan({cls: 'r2-empty-text', text: `Turned off for this note (${ENABLED_KEY}: false in frontmatter).`});
+			return;
+		}
+
+		// Only worth showing once there is more than one bucket to choose from
+		const profile = this.plugin.profileFor(activeFile);
+		if (this.plugin.settings.profiles.length || !profile.success) {
+			const profileEl = el.createDiv('r2-profile');
+			setIcon(profileEl.createSpan('r2-profile-icon'), 'database');
+			if (profile.success) {
+				profileEl.createSpan({text: `Bucket profile: ${profile.name}`});
+				setTooltip(profileEl, profile.settings.bucketName || 'No bucket set');
+			} else {
+				profileEl.createSpan({cls: 'r2-row-error', text: profile.error});
+			}
+		}
+
 		const pendingLocal = this.items.filter(i => i.status === 'idle' || i.status === 'failed');
 		if (pendingLocal.length === 0) uploadAllBtn.addClass('is-disabled');
-		else uploadAllBtn.addEventListener('click', () => this.uploadAll(activeFile));
+		else uploadAllBtn.addEventListener('click', () => { void this.uploadAll(activeFile); });
 
 		const pendingRemote = this.remoteItems.filter(i => i.status === 'idle' || i.status === 'failed');
 		if (pendingRemote.length === 0) downloadAllBtn.addClass('is-disabled');
-		else downloadAllBtn.addEventListener('click', () => this.downloadAll(activeFile));
+		else downloadAllBtn.addEventListener('click', () => { void this.downloadAll(activeFile); });
+
+		if (this.remoteItems.length === 0) checkBtn.addClass('is-disabled');
+		else checkBtn.addEventListener('click', () => { void this.checkLinks(activeFile); });
+
+		if (this.remoteItems.length === 0) revertBtn.addClass('is-disabled');
+		else revertBtn.addEventListener('click', () => { void revertNotes(this.plugin, [activeFile], activeFile.name); });
 
 		const navContainer = el.createDiv('nav-files-container');
 
@@ -321,10 +393,13 @@ export class R2UploaderView extends ItemView {
 			const btn = tools.createDiv({cls: 'clickable-icon' + (item.file ? '' : ' is-disabled')});
 			setIcon(btn, 'upload');
 			setTooltip(btn, 'Upload');
-			if (item.file) btn.addEventListener('click', (e) => { e.stopPropagation(); this.uploadItem(item, activeFile); });
-		} else if (item.status === 'uploading') {
-			const spinner = tools.createDiv('r2-spinning');
-			setIcon(spinner, 'loader');
+			if (item.file) btn.addEventListener('click', (e) => { e.stopPropagation(); void this.uploadItem(item, activeFile); });
+		} else if (isBusy(item.status)) {
+			this.renderBusyTools(tools, item);
+		} else if (item.status === 'review') {
+			const badge = tools.createDiv('r2-status-icon r2-status-review');
+			setIcon(badge, 'eye');
+			setTooltip(badge, 'Waiting for review');
 		} else if (item.status === 'done') {
 			const badge = tools.createDiv('r2-status-icon r2-status-done');
 			setIcon(badge, 'check');
@@ -334,7 +409,7 @@ export class R2UploaderView extends ItemView {
 			const btn = tools.createDiv('clickable-icon');
 			setIcon(btn, 'rotate-ccw');
 			setTooltip(btn, 'Retry');
-			btn.addEventListener('click', (e) => { e.stopPropagation(); this.uploadItem(item, activeFile); });
+			btn.addEventListener('click', (e) => { e.stopPropagation(); void this.uploadItem(item, activeFile); });
 		}
 
 		if (item.error) {
@@ -348,19 +423,34 @@ export class R2UploaderView extends ItemView {
 
 		row.createDiv({cls: 'tree-item-inner nav-file-title-content', text: item.fileName});
 		row.createSpan({cls: `r2-origin-badge ${item.isR2 ? 'r2-origin-r2' : 'r2-origin-ext'}`, text: item.isR2 ? 'R2' : 'Ext'});
+		if (item.health === 'checking') {
+			setIcon(row.createSpan('r2-spinning'), 'loader');
+		} else if (item.health) {
+			const badge = row.createSpan({cls: `r2-health r2-health-${item.health.status}`, text: LINK_STATUS_LABELS[item.health.status]});
+			if (item.health.detail) setTooltip(badge, item.health.detail);
+		}
 
 		row.addEventListener('click', () => this.revealLine(activeFile, item.line));
 
 		const tools = row.createDiv('r2-tools');
 
+		if (item.status === 'idle' && item.reuploadable) {
+			const fix = tools.createDiv('clickable-icon');
+			setIcon(fix, 'upload-cloud');
+			setTooltip(fix, 'Re-upload from local original');
+			fix.addEventListener('click', (e) => { e.stopPropagation(); void this.reuploadItem(item, activeFile); });
+		}
 		if (item.status === 'idle') {
 			const btn = tools.createDiv('clickable-icon');
 			setIcon(btn, 'download');
 			setTooltip(btn, 'Download to vault');
-			btn.addEventListener('click', (e) => { e.stopPropagation(); this.downloadItem(item, activeFile); });
-		} else if (item.status === 'uploading') {
-			const spinner = tools.createDiv('r2-spinning');
-			setIcon(spinner, 'loader');
+			btn.addEventListener('click', (e) => { e.stopPropagation(); void this.downloadItem(item, activeFile); });
+		} else if (isBusy(item.status)) {
+			this.renderBusyTools(tools, item);
+		} else if (item.status === 'review') {
+			const badge = tools.createDiv('r2-status-icon r2-status-review');
+			setIcon(badge, 'eye');
+			setTooltip(badge, 'Waiting for review');
 		} else if (item.status === 'done') {
 			const badge = tools.createDiv('r2-status-icon r2-status-done');
 			setIcon(badge, 'check');
@@ -370,7 +460,7 @@ export class R2UploaderView extends ItemView {
 			const btn = tools.createDiv('clickable-icon');
 			setIcon(btn, 'rotate-ccw');
 			setTooltip(btn, 'Retry');
-			btn.addEventListener('click', (e) => { e.stopPropagation(); this.downloadItem(item, activeFile); });
+			btn.addEventListener('click', (e) => { e.stopPropagation(); void this.downloadItem(item, activeFile); });
 		}
 
 		if (item.error) {
@@ -378,148 +468,424 @@ export class R2UploaderView extends ItemView {
 		}
 	}
 
+	// Spinner (or clock while waiting in the queue) plus a cancel button
+	private renderBusyTools(tools: HTMLElement, item: ImageItem | RemoteImageItem) {
+		if (item.status === 'queued') {
+			const badge = tools.createDiv('r2-status-icon r2-status-queued');
+			setIcon(badge, 'clock');
+		} else {
+			const spinner = tools.createDiv('r2-spinning');
+			setIcon(spinner, 'loader');
+		}
+		const btn = tools.createDiv('clickable-icon');
+		setIcon(btn, 'x');
+		setTooltip(btn, 'Cancel');
+		btn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			if (item.jobId) this.plugin.transfers.cancel(item.jobId);
+		});
+	}
+
+	private updateProgress() {
+		if (!this.progressEl || !this.cancelAllBtn) return;
+		const {done, total, active} = this.plugin.transfers.progress();
+		this.progressEl.setText(active ? `${done} / ${total}` : '');
+		this.progressEl.toggleClass('r2-hidden', !active);
+		this.cancelAllBtn.toggleClass('r2-hidden', !active);
+	}
+
+	private rerender(activeFile: TFile) {
+		if (this.currentFilePath === activeFile.path) this.render(activeFile);
+	}
+
 	private revealLine(file: TFile, line: number) {
-		const editorView = this.findEditorForFile(file);
+		const editorView = findEditorForFile(this.app, file);
 		if (!editorView) return;
 		this.app.workspace.setActiveLeaf(editorView.leaf, {focus: true});
 		editorView.editor.setCursor({line, ch: 0});
 		editorView.editor.scrollIntoView({from: {line, ch: 0}, to: {line, ch: 0}}, true);
 	}
 
-	private findEditorForFile(file: TFile): MarkdownView | null {
-		let target: MarkdownView | null = null;
-		this.app.workspace.iterateAllLeaves(leaf => {
-			if (!target && leaf.view instanceof MarkdownView && leaf.view.file?.path === file.path) {
-				target = leaf.view;
+	// ── Local image upload ────────────────────────────────
+	private async doUpload(
+		item: ImageItem, activeFile: TFile, baseUrl: string, alsoIn: AlsoIn, rewritten: TFile[], isCancelled: () => boolean,
+		held: HeldRewrite[] | null,
+	): Promise<TransferOutcome> {
+		item.status = 'uploading';
+		this.rerender(activeFile);
+
+		const file = item.file!;
+		const result = await this.plugin.uploadImageFile(file, baseUrl, activeFile);
+		if (!result.success) return result;
+		if (isCancelled()) return {success: false, error: 'Cancelled', cancelled: true};
+		if (held) {
+			await this.holdUploadRewrites(held, item, file, result, activeFile, alsoIn, rewritten);
+			return {success: true};
+		}
+
+		try {
+			const count = await rewriteEmbeds(this.app, activeFile, [{
+				fullMatch: item.fullMatch,
+				replacement: this.plugin.formatUploadedLink(item.embed, result.publicUrl, item.fileName, activeFile),
+			}]);
+			if (count === 0) return {success: false, error: 'Uploaded, but the link is no longer in the note'};
+		} catch (err) {
+			return {success: false, error: `Uploaded, but the note could not be updated: ${(err as Error).message}`};
+		}
+		rewritten.push(activeFile);
+		void this.plugin.recordUpload(file, result, activeFile);
+
+		// One upload record per rewritten note keeps revert and history accurate
+		const failed: string[] = [];
+		for (const {note, embeds} of alsoIn) {
+			try {
+				const count = await rewriteEmbeds(this.app, note, embeds.map(e => ({
+					fullMatch: e.fullMatch,
+					replacement: this.plugin.formatUploadedLink(e, result.publicUrl, file.name, note),
+				})));
+				if (count === 0) {
+					failed.push(note.path);
+					continue;
+				}
+				rewritten.push(note);
+				void this.plugin.recordUpload(file, result, note);
+			} catch {
+				failed.push(note.path);
 			}
+		}
+		if (failed.length) new Notice(`Images → R2: uploaded ${file.name}, but could not update ${failed.join(', ')}.`);
+		return {success: true};
+	}
+
+	// With review on, note changes wait for approval; each note records its upload once a change in it is applied.
+	// An upload no note takes up is recorded as skipped, so the orphan finder pre-selects it.
+	private async holdUploadRewrites(
+		held: HeldRewrite[], item: ImageItem, file: TFile, result: UploadSuccess, activeFile: TFile, alsoIn: AlsoIn, rewritten: TFile[],
+	) {
+		const applied = (note: TFile) => () => {
+			if (rewritten.includes(note)) return;
+			rewritten.push(note);
+			void this.plugin.recordUpload(file, result, note);
+		};
+		// Skips run after every applied change, so an empty list means no note uses the upload
+		let recordedSkip = false;
+		const skipped = async () => {
+			if (rewritten.length > 0 || recordedSkip) return;
+			recordedSkip = true;
+			await this.plugin.recordUpload(file, result, activeFile, true);
+		};
+		held.push({
+			change: {
+				note: activeFile,
+				lines: item.lines,
+				fullMatch: item.fullMatch,
+				replacement: this.plugin.formatUploadedLink(item.embed, result.publicUrl, item.fileName, activeFile),
+			},
+			onApplied: () => {
+				applied(activeFile)();
+				this.completeUpload(item, activeFile);
+			},
+			onSkipped: async () => {
+				item.status = 'idle';
+				await skipped();
+			},
 		});
-		return target;
+		for (const {note, embeds} of alsoIn) {
+			// Other notes have no panel rows tracking their lines, so read them from the note
+			const content = findEditorForFile(this.app, note)?.editor.getValue() ?? await this.app.vault.cachedRead(note);
+			for (const e of embeds) {
+				held.push({
+					change: {
+						note,
+						lines: findEmbedOffsets(content, e.fullMatch).map(index => lineOf(content, index)),
+						fullMatch: e.fullMatch,
+						replacement: this.plugin.formatUploadedLink(e, result.publicUrl, file.name, note),
+					},
+					onApplied: applied(note),
+					onSkipped: skipped,
+				});
+			}
+		}
 	}
 
-	// ── Local image upload ────────────────────────────────
-	private async doUpload(item: ImageItem, activeFile: TFile, baseUrl: string) {
-		item.status = 'uploading';
+	// Let the user pick which held-back changes to make, then apply them note by note
+	private async applyReviewed(held: HeldRewrite[]) {
+		const approved = new Map((await reviewChanges(this.app, held.map(h => h.change))).map(a => [a.change, a.occurrences]));
+		const applied = new Set<HeldRewrite>();
+		const failed: string[] = [];
+		for (const note of new Set(held.map(h => h.change.note))) {
+			const accepted = held.filter(h => h.change.note === note && approved.has(h.change));
+			if (accepted.length === 0) continue;
+			try {
+				const count = await rewriteEmbeds(this.app, note, accepted.map(h => ({
+					fullMatch: h.change.fullMatch,
+					replacement: h.change.replacement,
+					occurrences: approved.get(h.change),
+				})));
+				if (count === 0) throw new Error('No link left to change');
+				for (const h of accepted) {
+					h.onApplied();
+					applied.add(h);
+				}
+			} catch {
+				failed.push(note.path);
+			}
+		}
+		// A change that could not be written ends up like a skipped one
+		for (const h of held) if (!applied.has(h)) await h.onSkipped();
+		if (failed.length) new Notice(`Images → R2: could not update ${failed.join(', ')}.`);
+		await this.refresh();
+	}
+
+	// Ask whether other notes embedding the images should be rewritten too; null when cancelled
+	private async collectAlsoIn(items: ImageItem[], activeFile: TFile): Promise<Map<ImageItem, AlsoIn> | null> {
+		const alsoIn = new Map<ImageItem, AlsoIn>();
+		const notes = new Map<string, TFile>();
+		const profileName = (note: TFile) => {
+			const profile = this.plugin.profileFor(note);
+			return profile.success ? profile.name : '';
+		};
+		const activeProfile = profileName(activeFile);
+		for (const item of items) {
+			if (!item.file) continue;
+			// Notes that opted out keep their local embeds, and so do notes that upload to another
+			// bucket profile: the copy made here would live in the wrong bucket for them
+			const found = (await findEmbeddingNotes(this.plugin, item.file, activeFile))
+				.filter(({note}) => this.plugin.noteOptions(note).enabled && profileName(note) === activeProfile);
+			if (!found.length) continue;
+			alsoIn.set(item, found);
+			for (const {note} of found) notes.set(note.path, note);
+		}
+		if (notes.size === 0) return alsoIn;
+
+		const rewriteAll = await new AffectedNotesModal(this.app, [...notes.values()], alsoIn.size).choose();
+		if (rewriteAll === null) return null;
+		return rewriteAll ? alsoIn : new Map();
+	}
+
+	// Resolves to the rewritten notes once the image is uploaded, or null if it failed
+	private async enqueueUpload(
+		item: ImageItem, activeFile: TFile, baseUrl: string, alsoIn: AlsoIn = [], held: HeldRewrite[] | null = null,
+	): Promise<TFile[] | null> {
+		const id = `upload:${activeFile.path}:${item.fullMatch}`;
+		if (this.plugin.transfers.has(id)) return null;
+		const rewritten: TFile[] = [];
+		item.jobId = id;
+		item.status = 'queued';
 		item.error = undefined;
 
-		const result = await this.plugin.uploadImageFile(item.file!, baseUrl);
+		const outcome = await this.plugin.transfers.add({
+			id,
+			run: (isCancelled) => this.doUpload(item, activeFile, baseUrl, alsoIn, rewritten, isCancelled, held),
+			onRetry: (attempt, delayMs, error) => {
+				item.status = 'queued';
+				item.error = `${error} — retry ${attempt} in ${Math.round(delayMs / 1000)}s`;
+				this.rerender(activeFile);
+			},
+		});
+		item.jobId = undefined;
 
-		if (result.success) {
-			item.status = 'done';
-			const editorView = this.findEditorForFile(activeFile);
-			if (editorView) {
-				const editor = editorView.editor;
-				const current = editor.getValue();
-				const updated = current.split(item.fullMatch).join(`![${item.fileName}](${result.publicUrl})`);
-				if (updated !== current) editor.setValue(updated);
-			}
-			const {customDomain} = this.plugin.settings;
-			this.plugin.records.addUpload({
-				fileName: item.fileName,
-				localPath: item.file!.path,
-				publicUrl: result.publicUrl,
-				customUrl: customDomain ? `${customDomain}/${encodeURIComponent(item.fileName)}` : '',
-				notePath: activeFile.path,
-				noteFileName: activeFile.name,
-			});
-			window.setTimeout(() => {
-				if (this.currentFilePath !== activeFile.path) return;
-				this.items = this.items.filter(i => i !== item);
-				new Notice(`Uploaded: ${item.fileName}`);
-				this.render(activeFile);
-			}, 1000);
+		if (outcome.success) {
+			// A held-back link change is only done once the review applies it
+			if (held) item.status = 'review';
+			else this.completeUpload(item, activeFile);
+			item.error = undefined;
 		} else {
 			item.status = 'failed';
-			item.error = result.error;
+			item.error = outcome.error;
 		}
+		this.rerender(activeFile);
+		return outcome.success ? rewritten : null;
+	}
+
+	private completeUpload(item: ImageItem, activeFile: TFile) {
+		item.status = 'done';
+		window.setTimeout(() => {
+			if (this.currentFilePath !== activeFile.path) return;
+			this.items = this.items.filter(i => i !== item);
+			new Notice(`Uploaded: ${item.fileName}`);
+			this.render(activeFile);
+		}, 1000);
 	}
 
 	private async uploadItem(item: ImageItem, activeFile: TFile) {
 		if (!item.file) return;
-		const baseUrl = await this.plugin.resolveBaseUrl();
-		if (!baseUrl) {
-			new Notice('Images → R2: No public URL. Enable managed domain or set a Custom Domain in settings.');
-			return;
-		}
-		await this.doUpload(item, activeFile, baseUrl);
+		const baseUrl = await this.plugin.uploadBaseUrl(activeFile);
+		if (!baseUrl) return;
+		const alsoIn = await this.collectAlsoIn([item], activeFile);
+		if (!alsoIn) return;
+		const upload = this.enqueueUpload(item, activeFile, baseUrl, alsoIn.get(item));
 		this.render(activeFile);
+		const rewritten = await upload;
+		if (rewritten) await removeOriginals(this.plugin, [{file: item.file, notes: rewritten}]);
 	}
 
 	private async uploadAll(activeFile: TFile) {
-		const baseUrl = await this.plugin.resolveBaseUrl();
-		if (!baseUrl) {
-			new Notice('Images → R2: No public URL. Enable managed domain or set a Custom Domain in settings.');
-			return;
-		}
+		const baseUrl = await this.plugin.uploadBaseUrl(activeFile);
+		if (!baseUrl) return;
 		const pending = this.items.filter(i => (i.status === 'idle' || i.status === 'failed') && i.file);
-		for (const item of pending) {
-			await this.doUpload(item, activeFile, baseUrl);
-			this.render(activeFile);
+		const alsoIn = await this.collectAlsoIn(pending, activeFile);
+		if (!alsoIn) return;
+		const held = this.plugin.settings.reviewRewrites ? [] : null;
+		const uploads = pending.map(item => this.enqueueUpload(item, activeFile, baseUrl, alsoIn.get(item), held));
+		this.render(activeFile);
+		const rewritten = await Promise.all(uploads);
+		if (held) await this.applyReviewed(held);
+		await removeOriginals(this.plugin, pending.flatMap((item, i) => {
+			const notes = rewritten[i];
+			return notes && item.file ? [{file: item.file, notes}] : [];
+		}));
+	}
+
+	// ── Remote link health ────────────────────────────────
+	private async checkLinks(activeFile: TFile) {
+		const items = [...this.remoteItems];
+		for (const item of items) item.health = 'checking';
+		this.render(activeFile);
+		await Promise.all(items.map(async (item) => {
+			const health = await this.plugin.linkChecker.check(item.url, true);
+			item.health = health;
+			item.reuploadable = health.status === 'not-found' && item.isR2 && !!await findReuploadable(this.plugin, item.url);
+			this.rerender(activeFile);
+		}));
+	}
+
+	private async reuploadItem(item: RemoteImageItem, activeFile: TFile) {
+		const found = await findReuploadable(this.plugin, item.url);
+		if (!found) return;
+		item.status = 'uploading';
+		item.error = undefined;
+		this.rerender(activeFile);
+		const result = await reupload(this.plugin, {url: item.url, ...found, notes: [{note: activeFile, fullMatch: item.fullMatch}]});
+		if (result.success) {
+			item.status = 'done';
+			new Notice(`Re-uploaded: ${found.file.name}`);
+		} else {
+			item.status = 'failed';
+			item.error = result.error;
 		}
+		this.rerender(activeFile);
 	}
 
 	// ── Remote image download ─────────────────────────────
-	private async doDownload(item: RemoteImageItem, activeFile: TFile) {
+	private async doDownload(
+		item: RemoteImageItem, activeFile: TFile, isCancelled: () => boolean, held: HeldRewrite[] | null,
+	): Promise<TransferOutcome> {
 		item.status = 'uploading';
-		item.error = undefined;
+		this.rerender(activeFile);
 
+		let response;
 		try {
-			const response = await requestUrl({url: item.url, method: 'GET', throw: false});
-			if (response.status < 200 || response.status >= 300) {
-				item.status = 'failed';
-				item.error = `HTTP ${response.status}`;
-				return;
-			}
+			response = await requestUrl({url: item.url, method: 'GET', throw: false});
+		} catch (networkErr) {
+			return {success: false, error: (networkErr as Error).message, retryable: true};
+		}
+		if (response.status < 200 || response.status >= 300) {
+			return {success: false, error: `HTTP ${response.status}`, retryable: isRetryableStatus(response.status)};
+		}
+		if (isCancelled()) return {success: false, error: 'Cancelled', cancelled: true};
 
+		try {
 			const folder = this.resolveDownloadFolder(activeFile);
-			await this.ensureFolder(folder);
+			await ensureFolder(this.app, folder);
 			const basePath = folder ? `${folder}/${item.fileName}` : item.fileName;
-			const savePath = await this.uniquePath(basePath);
+			const savePath = uniquePath(this.app, basePath);
 
 			await this.app.vault.createBinary(savePath, response.arrayBuffer);
 
 			const savedFile = this.app.vault.getAbstractFileByPath(savePath);
 			if (!(savedFile instanceof TFile)) throw new Error('File not saved');
 
-			const editorView = this.findEditorForFile(activeFile);
-			if (editorView) {
-				const editor = editorView.editor;
-				const current = editor.getValue();
-				const updated = current.split(item.fullMatch).join(`![[${savedFile.name}]]`);
-				if (updated !== current) editor.setValue(updated);
+			const replacement = this.plugin.formatDownloadedLink(savedFile, activeFile, item.embed);
+			const record = () => {
+				void this.plugin.records.addDownload({
+					fileName: savedFile.name,
+					localPath: savedFile.path,
+					remoteUrl: item.url,
+					notePath: activeFile.path,
+					noteFileName: activeFile.name,
+				});
+			};
+			if (held) {
+				held.push({
+					change: {note: activeFile, lines: item.lines, fullMatch: item.fullMatch, replacement},
+					onApplied: () => {
+						record();
+						this.completeDownload(item, activeFile);
+					},
+					// Nothing links to the file if its change is skipped
+					onSkipped: async () => {
+						item.status = 'idle';
+						await this.app.fileManager.trashFile(savedFile);
+					},
+				});
+				return {success: true};
 			}
 
-			item.status = 'done';
-			this.plugin.records.addDownload({
-				fileName: savedFile.name,
-				localPath: savedFile.path,
-				remoteUrl: item.url,
-				notePath: activeFile.path,
-				noteFileName: activeFile.name,
-			});
-
-			window.setTimeout(() => {
-				if (this.currentFilePath !== activeFile.path) return;
-				this.remoteItems = this.remoteItems.filter(i => i !== item);
-				new Notice(`Downloaded: ${item.fileName}`);
-				this.render(activeFile);
-			}, 1000);
-
+			if (await rewriteEmbeds(this.app, activeFile, [{fullMatch: item.fullMatch, replacement}]) === 0) {
+				// Nothing links to the file, so it would only clutter the vault
+				await this.app.fileManager.trashFile(savedFile);
+				return {success: false, error: 'The link is no longer in the note'};
+			}
+			record();
+			return {success: true};
 		} catch (err) {
+			return {success: false, error: (err as Error).message};
+		}
+	}
+
+	private async enqueueDownload(item: RemoteImageItem, activeFile: TFile, held: HeldRewrite[] | null = null) {
+		const id = `download:${activeFile.path}:${item.fullMatch}`;
+		if (this.plugin.transfers.has(id)) return;
+		item.jobId = id;
+		item.status = 'queued';
+		item.error = undefined;
+
+		const outcome = await this.plugin.transfers.add({
+			id,
+			run: (isCancelled) => this.doDownload(item, activeFile, isCancelled, held),
+			onRetry: (attempt, delayMs, error) => {
+				item.status = 'queued';
+				item.error = `${error} — retry ${attempt} in ${Math.round(delayMs / 1000)}s`;
+				this.rerender(activeFile);
+			},
+		});
+		item.jobId = undefined;
+
+		if (outcome.success) {
+			// A held-back link change is only done once the review applies it
+			if (held) item.status = 'review';
+			else this.completeDownload(item, activeFile);
+			item.error = undefined;
+		} else {
 			item.status = 'failed';
-			item.error = (err as Error).message;
+			item.error = outcome.error;
 		}
+		this.rerender(activeFile);
+	}
+
+	private completeDownload(item: RemoteImageItem, activeFile: TFile) {
+		item.status = 'done';
+		window.setTimeout(() => {
+			if (this.currentFilePath !== activeFile.path) return;
+			this.remoteItems = this.remoteItems.filter(i => i !== item);
+			new Notice(`Downloaded: ${item.fileName}`);
+			this.render(activeFile);
+		}, 1000);
 	}
 
 	private async downloadItem(item: RemoteImageItem, activeFile: TFile) {
-		await this.doDownload(item, activeFile);
+		const download = this.enqueueDownload(item, activeFile);
 		this.render(activeFile);
+		await download;
 	}
 
 	private async downloadAll(activeFile: TFile) {
 		const pending = this.remoteItems.filter(i => i.status === 'idle' || i.status === 'failed');
-		for (const item of pending) {
-			await this.doDownload(item, activeFile);
-			this.render(activeFile);
-		}
+		const held = this.plugin.settings.reviewRewrites ? [] : null;
+		const downloads = pending.map(item => this.enqueueDownload(item, activeFile, held));
+		this.render(activeFile);
+		await Promise.all(downloads);
+		if (held) await this.applyReviewed(held);
 	}
 }